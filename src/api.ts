@@ -45,6 +45,11 @@ const NEWSLETTER_COUNTER_PROMPT_AFTER_SECOND = 100;
 */
 const MIRRORD_LS_TARGET_TYPES_ENV = "MIRRORD_LS_TARGET_TYPES";
 
+/**
+* Environment variable name for overriding the kube context used by the CLI.
+*/
+const MIRRORD_KUBE_CONTEXT_ENV = "MIRRORD_KUBE_CONTEXT";
+
 /**
 * Level of the notification, different levels map to different notification boxes.
 */
@@ -139,6 +144,38 @@ function handleIdeMessage(message: IdeMessage) {
   }
 }
 
+/**
+ * Additional info about a mirrord target found in the cluster.
+ *
+ * All fields are optional, as they depend on the target type and the CLI version.
+ */
+export interface TargetMetadata {
+  /**
+   * Phase of the pod, e.g. `Running`.
+   */
+  phase?: string;
+  /**
+   * Total number of container restarts in the pod.
+   */
+  restarts?: number;
+  /**
+   * Creation timestamp of the resource, RFC 3339.
+   */
+  created_at?: string;
+  /**
+   * Desired number of replicas of the workload.
+   */
+  replicas?: number;
+  /**
+   * Number of ready replicas of the workload.
+   */
+  ready_replicas?: number;
+  /**
+   * Labels of the resource.
+   */
+  labels?: Record<string, string>;
+}
+
 /**
  * A mirrord target found in the cluster.
  */
@@ -151,6 +188,24 @@ export interface FoundTarget {
    * Whether this target is available.
    */
   available: boolean;
+  /**
+   * Why this target is not available (e.g. no running pods, or locked by another user).
+   *
+   * Only present in the rich `mirrord ls` output, and only when @see available is false.
+   */
+  unavailable_reason?: string;
+  /**
+   * Names of the containers in this target.
+   *
+   * Only present in the rich `mirrord ls` output.
+   */
+  containers?: string[];
+  /**
+   * Additional info about this target.
+   *
+   * Only present in the rich `mirrord ls` output.
+   */
+  metadata?: TargetMetadata;
 };
 
 /**
@@ -184,6 +239,40 @@ function isRichMirrordLsOutput(output: MirrordLsOutput | string[]): output is Mi
   return "targets" in output && "current_namespace" in output && "namespaces" in output;
 }
 
+/**
+ * Returns the @see TargetMetadata from the `mirrord ls` output, skipping fields of unexpected types.
+ */
+function parseTargetMetadata(raw: unknown): TargetMetadata | undefined {
+  if (typeof raw !== "object" || raw === null) {
+    return undefined;
+  }
+
+  const fields = raw as Record<string, unknown>;
+  const metadata: TargetMetadata = {};
+  if (typeof fields["phase"] === "string") {
+    metadata.phase = fields["phase"];
+  }
+  if (typeof fields["restarts"] === "number") {
+    metadata.restarts = fields["restarts"];
+  }
+  if (typeof fields["created_at"] === "string") {
+    metadata.created_at = fields["created_at"];
+  }
+  if (typeof fields["replicas"] === "number") {
+    metadata.replicas = fields["replicas"];
+  }
+  if (typeof fields["ready_replicas"] === "number") {
+    metadata.ready_replicas = fields["ready_replicas"];
+  }
+  if (typeof fields["labels"] === "object" && fields["labels"] !== null) {
+    metadata.labels = Object.fromEntries(
+      Object.entries(fields["labels"]).filter(([_, value]) => typeof value === "string")
+    );
+  }
+
+  return metadata;
+}
+
 // Display error message with help
 export function mirrordFailure(error: string) {
   new NotificationBuilder()
@@ -251,6 +340,33 @@ const makeMirrordArgs = (target: string | undefined, configFilePath: PathLike |
   return args;
 };
 
+/**
+ * Returns the target to pass to the mirrord CLI, including the container.
+ */
+export function selectionTarget(quickPickSelection: UserSelection | undefined): string | undefined {
+  let target = quickPickSelection?.path;
+  if (target !== undefined && quickPickSelection?.container !== undefined) {
+    target = `${target}/container/${quickPickSelection.container}`;
+  }
+  return target;
+}
+
+/**
+ * Adds the namespace and kube context from the user selection to the env of the mirrord CLI.
+ * A namespace already present in the env takes precedence, while the kube context selected by the user
+ * overrides the env, as it does when listing the targets (see @see MirrordAPI.listTargets).
+ */
+function selectionEnv(quickPickSelection: UserSelection | undefined, configEnv: EnvVars): EnvVars {
+  let env = configEnv;
+  if (quickPickSelection?.namespace) {
+    env = { MIRRORD_TARGET_NAMESPACE: quickPickSelection.namespace, ...env };
+  }
+  if (quickPickSelection?.context) {
+    env = { ...env, [MIRRORD_KUBE_CONTEXT_ENV]: quickPickSelection.context };
+  }
+  return env;
+}
+
 /**
 * API to interact with the mirrord CLI, runs in the "ext" mode.
 */
@@ -277,7 +393,8 @@ export class MirrordAPI {
   }
 
   // Execute the mirrord cli with the given arguments, return stdout.
-  private async exec(args: string[], configEnv: EnvVars, timeoutMs?: number): Promise<string> {
+  // Errors reported by the cli are shown to the user, unless `notifyErrors` is false.
+  private async exec(args: string[], configEnv: EnvVars, timeoutMs?: number, notifyErrors = true): Promise<string> {
     const child = this.spawnCliWithArgsAndEnv(args, configEnv);
 
     return await new Promise<string>((resolve, reject) => {
@@ -315,14 +432,16 @@ export class MirrordAPI {
         const match = stderrData.match(/Error: (.*)/)?.[1];
         if (match) {
           const error = JSON.parse(match);
-          const notification = new NotificationBuilder()
-            .withMessage(`mirrord error: ${error["message"]}`);
-          if (error["help"]) {
-            notification.withGenericAction("Help", async () => {
-              vscode.window.showInformationMessage(error["help"]);
-            });
+          if (notifyErrors) {
+            const notification = new NotificationBuilder()
+              .withMessage(`mirrord error: ${error["message"]}`);
+            if (error["help"]) {
+              notification.withGenericAction("Help", async () => {
+                vscode.window.showInformationMessage(error["help"]);
+              });
+            }
+            notification.error();
           }
-          notification.error();
           return reject(error["message"]);
         }
 
@@ -339,6 +458,31 @@ export class MirrordAPI {
     });
   }
 
+  /**
+   * Runs the command with `mirrord exec`, used by the mirrord task (@see MirrordTaskProvider).
+   *
+   * The output is meant for the task terminal, so the progress is printed in the human readable mode.
+   *
+   * @param quickPickSelection target selected by the user, `undefined` if it's set in the config
+   * @param command command and its arguments
+   */
+  spawnExec(quickPickSelection: UserSelection | undefined, configFile: string | null, command: readonly string[], configEnv: EnvVars, cwd: string | undefined): ChildProcessWithoutNullStreams {
+    const args = ["exec"];
+    const target = selectionTarget(quickPickSelection);
+    if (target) {
+      args.push("-t", target);
+    }
+    if (configFile) {
+      args.push("-f", configFile);
+    }
+    args.push("--", ...command);
+
+    return spawn(this.cliPath, args, {
+      env: { ...process.env, ...selectionEnv(quickPickSelection, configEnv), "MIRRORD_IDE_NAME": "vscode" },
+      cwd,
+    });
+  }
+
   /**
   * Spawn the mirrord cli with the given arguments.
   * Used for reading/interacting while process still runs.
@@ -377,9 +521,11 @@ export class MirrordAPI {
   * 
   * Note that old CLI versions return only targets.
   * 
+  * Errors reported by the CLI are shown to the user, unless `notifyErrors` is false.
+  * 
   * @see MirrordLsOutput
   */
-  async listTargets(configPath: string | null | undefined, configEnv: EnvVars, targetTypes: string[], namespace?: string,): Promise<MirrordLsOutput> {
+  async listTargets(configPath: string | null | undefined, configEnv: EnvVars, targetTypes: string[], namespace?: string, context?: string, notifyErrors = true): Promise<MirrordLsOutput> {
     const args = ['ls'];
     if (configPath) {
       args.push('-f', configPath);
@@ -391,12 +537,20 @@ export class MirrordAPI {
 
     configEnv[MIRRORD_LS_TARGET_TYPES_ENV] = JSON.stringify(targetTypes);
 
-    const stdout = await this.exec(args, configEnv);
+    let env = configEnv;
+    if (context !== undefined) {
+      env = { ...configEnv, [MIRRORD_KUBE_CONTEXT_ENV]: context };
+    }
+
+    const stdout = await this.exec(args, env, undefined, notifyErrors);
 
     const targets = JSON.parse(stdout) as MirrordLsOutput | string[];
     let mirrordLsOutput: MirrordLsOutput;
     if (isRichMirrordLsOutput(targets)) {
       mirrordLsOutput = targets;
+      mirrordLsOutput.targets.forEach(target => {
+        target.metadata = parseTargetMetadata(target.metadata);
+      });
     } else {
       mirrordLsOutput = {
         targets: targets.map(path => {
@@ -411,8 +565,10 @@ export class MirrordAPI {
   /**
   * Executes the `mirrord verify-config {configPath}` command, parsing its output into a
   * `VerifiedConfig`.
+  *
+  * Errors reported by the CLI are shown to the user, unless `notifyErrors` is false.
   */
-  async verifyConfig(configPath: vscode.Uri | null, configEnv: EnvVars): Promise<VerifiedConfig | undefined> {
+  async verifyConfig(configPath: vscode.Uri | null, configEnv: EnvVars, notifyErrors = true): Promise<VerifiedConfig | undefined> {
     if (configPath) {
       // NOTE: `fsPath`/`_fsPath` is correct, whereas `path` is incorrect,
       // for cross-platform support. e.g.:
@@ -422,7 +578,7 @@ export class MirrordAPI {
       //
       // See the documentation for more information.
       const args = ['verify-config', '--ide', `${configPath.fsPath}`];
-      const stdout = await this.exec(args, configEnv);
+      const stdout = await this.exec(args, configEnv, undefined, notifyErrors);
 
       const verifiedConfig: VerifiedConfig = JSON.parse(stdout);
       return verifiedConfig;
@@ -476,13 +632,8 @@ export class MirrordAPI {
           reject("timeout");
         }, 120 * 1000);
 
-        const args = makeMirrordArgs(quickPickSelection?.path, configFile, executable);
-        let env: EnvVars;
-        if (quickPickSelection?.namespace) {
-          env = { MIRRORD_TARGET_NAMESPACE: quickPickSelection.namespace, ...configEnv };
-        } else {
-          env = configEnv;
-        }
+        const args = makeMirrordArgs(selectionTarget(quickPickSelection), configFile, executable);
+        let env = selectionEnv(quickPickSelection, configEnv);
         if (branchName.length > 0) {
           env = { MIRRORD_BRANCH_NAME: branchName, ...env };
         }
@@ -118,6 +118,22 @@ async function getConfiguredMirrordBinary(background: boolean, latestVersion: st
     return configured;
 }
 
+/**
+ * Returns the mirrord binary specified in settings, or a local one found in path or in extension storage.
+ *
+ * Unlike @see getMirrordBinary, does not check the latest supported version, download the binary
+ * or notify the user, so it can be used by features running in the background, e.g. config diagnostics.
+ */
+export async function findLocalMirrordBinary(): Promise<string | null> {
+    const configured = workspace.getConfiguration().get<string | null>("mirrord.binaryPath");
+    if (configured) {
+        return configured;
+    }
+
+    const local = await getLocalMirrordBinary(null);
+    return local ? local[0] : null;
+}
+
 /**
  * Toggles auto-update of mirrord binary.
  * Criteria for auto-update:
@@ -220,6 +236,18 @@ export async function getMirrordBinary(background: boolean): Promise<string | nu
     return downloaded ? downloaded[0] : null;
 }
 
+/**
+ * Returns the API of the mirrord binary, see @see getMirrordBinary.
+ * @throws if the binary can't be downloaded or found locally
+ */
+export async function getMirrordAPI(): Promise<MirrordAPI> {
+    const cliPath = await getMirrordBinary(false);
+    if (!cliPath) {
+        throw new Error("couldn't download mirrord binaries or find local one in path");
+    }
+    return new MirrordAPI(cliPath);
+}
+
 /**
  * 
  * @returns The latest supported version of mirrord for current extension version
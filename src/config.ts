@@ -1,5 +1,11 @@
 import * as vscode from 'vscode';
 import { NotificationBuilder } from './notification';
+import { selectionTarget } from './api';
+import { ConfigValue, updateConfigFile } from './configFile';
+import { globalContext } from './extension';
+import { launchConfigFile, LaunchConfigEntry, launchOptions, listLaunchConfigs, movedConfigFilePath, openLaunchJson, relativePathIn, resolveConfigFilePath, setLaunchConfigFile } from './launchConfigs';
+import Logger from './logger';
+import { UserSelection } from './targetQuickPick';
 
 /**
  * Default mirrord configuration.
@@ -16,13 +22,50 @@ const DEFAULT_CONFIG = `{
 }
 `;
 
-export type EnvVars = Record<string, string>;
+/**
+ * Glob patterns of mirrord config files across the workspace.
+ */
+export const CONFIG_FILE_PATTERNS = [
+  "**/*mirrord.{json,toml,yml,yaml}", // known extensions, names ending with `mirrord`
+  "**/*.mirrord/*.{json,toml,yml,yaml}", // known extensions, located in directories with names ending with `.mirrord` 
+];
+
+/**
+ * Returns whether the file is a mirrord config, i.e. matches one of @see CONFIG_FILE_PATTERNS.
+ */
+export function isMirrordConfigFile(uri: vscode.Uri): boolean {
+  const segments = uri.path.split("/");
+  const name = segments[segments.length - 1] ?? "";
+  const dir = segments[segments.length - 2] ?? "";
+  return /mirrord\.(json|toml|yml|yaml)$/.test(name) || (dir.endsWith(".mirrord") && /\.(json|toml|yml|yaml)$/.test(name));
+}
+
+/**
+ * Key used to store the active configs in the workspace state, see @see MirrordConfigManager.activeConfigOf.
+ */
+const ACTIVE_CONFIGS_KEY = "mirrord-active-configs";
 
-interface LaunchConfig {
-  name: string,
-  env?: EnvVars;
+/**
+ * Returns the key of the workspace folder in @see ACTIVE_CONFIGS_KEY.
+ * Launches outside of workspace folders use an empty key.
+ */
+function folderKey(folder: vscode.WorkspaceFolder | undefined): string {
+  return folder?.uri.toString() ?? "";
 }
 
+export type EnvVars = Record<string, string>;
+
+/**
+ * Where the mirrord config used for a launch comes from, see @see MirrordConfigManager.resolveConfigSource.
+ */
+export type ConfigSource =
+  { kind: 'active', path: vscode.Uri } | // active config selected by the user
+  { kind: 'env', path: vscode.Uri } | // `mirrord.configFile` or `MIRRORD_CONFIG_FILE` env var of the launch config
+  { kind: 'missing', rawPath: string } | // set in the launch config, but the file does not exist
+  { kind: 'default', path: vscode.Uri } | // default config from the `.mirrord` directory
+  { kind: 'none' } | // no config, which is fine
+  { kind: 'noFolder' }; // no config, because no folder is open
+
 /**
 * Output from `mirrord verify-config`.
 */
@@ -83,9 +126,10 @@ export class MirrordConfigManager {
   private static instance?: MirrordConfigManager = undefined;
 
   /**
-   * Active config. User can set this for the whole workspace.
+   * Active configs, keyed by the workspace folder (@see folderKey).
+   * User can set them per workspace folder, they are persisted in the workspace state.
    */
-  private active?: vscode.Uri;
+  private active: Map<string, vscode.Uri>;
   private fileListeners: vscode.Disposable[];
   /**
    * All will be called when the active config changes.
@@ -94,57 +138,146 @@ export class MirrordConfigManager {
   private activeConfigListeners: ((active?: vscode.Uri) => Thenable<any>)[];
 
   private constructor() {
+    const stored: Record<string, string> = globalContext.workspaceState.get(ACTIVE_CONFIGS_KEY) ?? {};
+    this.active = new Map(Object.entries(stored).map(([key, config]) => [key, vscode.Uri.parse(config)]));
     this.fileListeners = [];
 
     this.fileListeners.push(vscode.workspace.onDidDeleteFiles(async event => {
-      const activePath = this.active?.fsPath;
-      if (!activePath) {
-        return;
-      }
+      const deleted = [...this.active.entries()]
+        .filter(([, active]) => event.files.some(file => active.fsPath.startsWith(file.fsPath)));
 
-      const deleted = event.files.find(file => activePath.startsWith(file.fsPath));
-
-      if (deleted) {
+      if (deleted.length > 0) {
         new NotificationBuilder()
           .withMessage("removed active mirrord configuration")
           .withDisableAction("promptActiveConfigRemoved")
           .warning();
 
-        this.setActiveConfig(undefined);
-
-        return;
+        deleted.forEach(([key]) => this.setActive(key, undefined));
       }
+
+      await MirrordConfigManager.flagDeletedReferences(event.files);
     }));
 
     this.fileListeners.push(vscode.workspace.onDidRenameFiles(async event => {
-      const activePath = this.active?.fsPath;
-      if (!activePath) {
-        return;
+      for (const [key, active] of [...this.active.entries()]) {
+        const activePath = active.fsPath;
+        const moved = event.files.find(file => activePath.startsWith(file.oldUri.fsPath));
+        if (moved) {
+          const newPath = activePath.replace(moved.oldUri.fsPath, moved.newUri.fsPath);
+          const newUri = vscode.Uri.parse(`file://${newPath}`);
+          new NotificationBuilder()
+            .withMessage(`moved active mirrord configuration to ${vscode.workspace.asRelativePath(newUri)}`)
+            .withDisableAction("promptActiveConfigMoved")
+            .warning();
+
+          this.setActive(key, newUri);
+        }
       }
 
-      const moved = event.files.find(file => activePath.startsWith(file.oldUri.fsPath));
-      if (moved) {
-        const newPath = activePath.replace(moved.oldUri.fsPath, moved.newUri.fsPath);
-        const newUri = vscode.Uri.parse(`file://${newPath}`);
-        new NotificationBuilder()
-          .withMessage(`moved active mirrord configuration to ${vscode.workspace.asRelativePath(newUri)}`)
-          .withDisableAction("promptActiveConfigMoved")
-          .warning();
+      await MirrordConfigManager.updateMovedReferences(event.files);
+    }));
+
+    this.activeConfigListeners = [];
 
-        this.setActiveConfig(newUri);
+    this.forgetMissingConfigs();
+  }
 
-        return;
+  /**
+   * Unsets the restored active configs that were removed while the workspace was closed.
+   */
+  private async forgetMissingConfigs() {
+    for (const [key, active] of [...this.active.entries()]) {
+      try {
+        await vscode.workspace.fs.stat(active);
+      } catch {
+        this.setActive(key, undefined);
       }
-    }));
+    }
+  }
 
-    this.activeConfigListeners = [];
+  /**
+   * Offers to update the launch configurations whose mirrord config (@see launchConfigFile) is a moved file.
+   * The new values keep the style of the old ones, see @see movedConfigFilePath.
+   */
+  private static async updateMovedReferences(files: readonly { oldUri: vscode.Uri, newUri: vscode.Uri }[]) {
+    const updates: { entry: LaunchConfigEntry, value: string }[] = [];
+    for (const entry of listLaunchConfigs()) {
+      const configFile = launchConfigFile(entry);
+      const file = configFile && files.find(f => relativePathIn(f.oldUri, configFile) !== undefined);
+      if (!configFile || !file) {
+        continue;
+      }
+
+      // The moved file may be a directory containing the config.
+      const moved = vscode.Uri.joinPath(file.newUri, relativePathIn(file.oldUri, configFile)!);
+      updates.push({ entry, value: movedConfigFilePath(launchOptions(entry.config).configFile!, moved, entry.folder) });
+    }
+
+    if (updates.length === 0) {
+      return;
+    }
+
+    const names = updates.map(({ entry }) => `"${entry.config.name}"`).join(', ');
+    new NotificationBuilder()
+      .withMessage(`launch configurations ${names} use a moved mirrord config`)
+      .withGenericAction("Update launch configurations", async () => {
+        for (const { entry, value } of updates) {
+          try {
+            await setLaunchConfigFile(entry, value);
+          } catch (e) {
+            const errorMsg = e instanceof Error ? e.message : String(e);
+            Logger.error(`failed to update launch configuration ${entry.config.name}: ${errorMsg}`);
+            new NotificationBuilder()
+              .withMessage(`failed to update launch configuration ${entry.config.name}: ${errorMsg}`)
+              .error();
+          }
+        }
+      })
+      .warning();
   }
 
-  private setActiveConfig(newConfig?: vscode.Uri) {
-    this.active = newConfig;
+  /**
+   * Warns about the launch configurations whose mirrord config (@see launchConfigFile) is a deleted file.
+   */
+  private static async flagDeletedReferences(files: readonly vscode.Uri[]) {
+    const dangling = listLaunchConfigs().filter(entry => {
+      const configFile = launchConfigFile(entry);
+      return configFile && files.some(file => relativePathIn(file, configFile) !== undefined);
+    });
+
+    if (dangling.length === 0) {
+      return;
+    }
+
+    const names = dangling.map(entry => `"${entry.config.name}"`).join(', ');
+    new NotificationBuilder()
+      .withMessage(`launch configurations ${names} use a deleted mirrord config`)
+      .withGenericAction("Open launch.json", async () => openLaunchJson(dangling[0]!.folder))
+      .warning();
+  }
+
+  private setActive(key: string, newConfig?: vscode.Uri) {
+    if (newConfig) {
+      this.active.set(key, newConfig);
+    } else {
+      this.active.delete(key);
+    }
+
+    const stored = Object.fromEntries([...this.active.entries()].map(([k, config]) => [k, config.toString()]));
+    globalContext.workspaceState.update(ACTIVE_CONFIGS_KEY, stored);
+
     this.activeConfigListeners.forEach(l => l(newConfig));
   }
 
+  /**
+   * Sets the active config of the workspace folder.
+   * @param folder workspace folder, undefined for launches outside of workspace folders
+   * @param newConfig new active config, undefined to unset
+   */
+  public setActiveConfig(folder: vscode.WorkspaceFolder | undefined, newConfig?: vscode.Uri) {
+    this.setActive(folderKey(folder), newConfig);
+  }
+
   public dispose() {
     this.fileListeners.forEach(fl => fl.dispose());
   }
@@ -165,36 +298,69 @@ export class MirrordConfigManager {
     return MirrordConfigManager.instance;
   }
 
+  /**
+   * Returns the workspace folder the config belongs to, for setting it as the active config.
+   * Configs outside of workspace folders belong to the only folder, if there is exactly one.
+   */
+  public static folderOf(config: vscode.Uri): vscode.WorkspaceFolder | undefined {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return vscode.workspace.getWorkspaceFolder(config) ?? (folders.length === 1 ? folders[0] : undefined);
+  }
+
+  /**
+   * @param folder workspace folder, undefined for launches outside of workspace folders
+   * @returns the active config of the workspace folder
+   */
+  public activeConfigOf(folder: vscode.WorkspaceFolder | undefined): vscode.Uri | undefined {
+    return this.active.get(folderKey(folder));
+  }
+
+  /**
+   * Returns the active config to use outside of launches, e.g. for listing targets.
+   * Prefers the workspace folder of the active editor, then the first workspace folder with an active config.
+   */
   public activeConfig(): vscode.Uri | undefined {
-    return this.active;
+    const editorUri = vscode.window.activeTextEditor?.document.uri;
+    const editorFolder = editorUri && vscode.workspace.getWorkspaceFolder(editorUri);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+
+    return [editorFolder, ...folders, undefined]
+      .map(folder => this.activeConfigOf(folder || undefined))
+      .find(active => active !== undefined);
   }
 
   /**
    * Handles `mirrord.selectActiveConfig` command.
    * Allows the user to set an active mirrord config from quick pick.
    * Any path across the workspace is available, as long as its name ends with `mirrord.{json,toml,yml,yaml}`.
+   * In multi-root workspaces, the user first selects the workspace folder the active config is set for.
    */
   public async selectActiveConfig() {
-    const options = new Map<string, vscode.Uri>();
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const folder = folders.length > 1
+      ? await vscode.window.showWorkspaceFolderPick({ placeHolder: "Select workspace folder to set the active mirrord config for" })
+      : folders[0];
+    if (folders.length > 1 && folder === undefined) {
+      return;
+    }
 
-    const filePatterns = [
-      "**/*mirrord.{json,toml,yml,yaml}", // known extensions, names ending with `mirrord`
-      "**/*.mirrord/*.{json,toml,yml,yaml}", // known extensions, located in directories with names ending with `.mirrord` 
-    ];
+    const options = new Map<string, vscode.Uri>();
 
-    const files = await Promise.all(filePatterns.map(pattern => vscode.workspace.findFiles(pattern)));
+    const files = await Promise.all(CONFIG_FILE_PATTERNS.map(pattern => vscode.workspace.findFiles(pattern)));
     files.flat().forEach(file => options.set(vscode.workspace.asRelativePath(file), file));
 
-    const displayed = this.active ? ["<unset active config>", ...options.keys()] : [...options.keys()];
-    const placeHolder = this.active
-      ? `Select active mirrord config from the workspace (currently ${vscode.workspace.asRelativePath(this.active)})`
-      : "Select active mirrord config from the workspace";
+    const active = this.activeConfigOf(folder);
+    const forFolder = folders.length > 1 ? ` for ${folder!.name}` : "";
+    const displayed = active ? ["<unset active config>", ...options.keys()] : [...options.keys()];
+    const placeHolder = active
+      ? `Select active mirrord config${forFolder} from the workspace (currently ${vscode.workspace.asRelativePath(active)})`
+      : `Select active mirrord config${forFolder} from the workspace`;
     const selected = await vscode.window.showQuickPick(displayed, { placeHolder });
     if (selected === "<unset active config>") {
-      this.setActiveConfig(undefined);
+      this.setActiveConfig(folder, undefined);
     } else if (selected) {
       const path = options.get(selected)!;
-      this.setActiveConfig(path);
+      this.setActiveConfig(folder, path);
     }
   }
 
@@ -224,45 +390,71 @@ export class MirrordConfigManager {
     return path;
   }
 
+  /**
+   * Saves the target in the given mirrord config, keeping the formatting of the file.
+   * If there is no config, uses the default one from the given workspace folder, creating it if needed.
+   * @param configPath config used for the launch, as returned from `resolveMirrordConfig`
+   * @param folder workspace folder for the default config
+   * @param target selected target and, optionally, its container, namespace and kube context
+   * @returns path to the updated config, or undefined if there was no config and no folder
+   */
+  public static async saveTarget(
+    configPath: vscode.Uri | null,
+    folder: vscode.WorkspaceFolder | undefined,
+    target: UserSelection,
+  ): Promise<vscode.Uri | undefined> {
+    let path = configPath ?? undefined;
+    if (path === undefined) {
+      if (folder === undefined) {
+        return undefined;
+      }
+      path = await MirrordConfigManager.getDefaultConfig(folder) ?? await MirrordConfigManager.createDefaultConfig(folder);
+    }
+
+    const values: ConfigValue[] = [[['target', 'path'], selectionTarget(target)]];
+    if (target.namespace !== undefined) {
+      values.push([['target', 'namespace'], target.namespace]);
+    }
+    if (target.context !== undefined) {
+      values.push([['kube_context'], target.context]);
+    }
+    await updateConfigFile(path, values);
+
+    return path;
+  }
+
   /**
    * Handles `mirrord.changeSettings` command.
    * Allows the user to open a mirrord config file selected from quick pick.
    * Quick pick options in order:
-   *  - active config (if set)
+   *  - active configs (if set)
    *  - configs used in launch configurations across the workspace
    *  - default configs across the workspace
    */
   public async changeSettings() {
     const options = new Map<string, vscode.Uri>();
 
-    // Active config first.
-    if (this.active) {
-      options.set(`(active) ${vscode.workspace.asRelativePath(this.active.fsPath)}`, this.active);
+    // Active configs first.
+    const folders = vscode.workspace.workspaceFolders || [];
+    for (const folder of folders.length > 0 ? folders : [undefined]) {
+      const active = this.activeConfigOf(folder);
+      if (active) {
+        const label = folders.length > 1 ? `(active ${folder!.name})` : "(active)";
+        options.set(`${label} ${vscode.workspace.asRelativePath(active.fsPath)}`, active);
+      }
     }
 
     // Then all configs found in launch configurations across the workspace.
-    const folders = vscode.workspace.workspaceFolders || [];
-    for (const folder of folders) {
-      const launchConfigs = vscode.workspace.getConfiguration("launch", folder)?.get<LaunchConfig[]>("configurations") || [];
-      for (const launchConfig of launchConfigs) {
-        const rawPath = launchConfig.env?.["MIRRORD_CONFIG_FILE"];
-        if (!rawPath) {
-          continue;
-        }
-
-        let path;
-        if (rawPath.startsWith("/")) {
-          path = vscode.Uri.file(rawPath);
-        } else {
-          path = vscode.Uri.joinPath(folder.uri, rawPath);
-
-        }
+    for (const entry of listLaunchConfigs()) {
+      const path = launchConfigFile(entry);
+      if (!path) {
+        continue;
+      }
 
-        if (folders.length > 1) {
-          options.set(`(launch config ${folder.name}:${launchConfig.name}) ${vscode.workspace.asRelativePath(path)}`, path);
-        } else {
-          options.set(`(launch config ${launchConfig.name}) ${vscode.workspace.asRelativePath(path)}`, path);
-        }
+      if (folders.length > 1) {
+        options.set(`(launch config ${entry.folder.name}:${entry.config.name}) ${vscode.workspace.asRelativePath(path)}`, path);
+      } else {
+        options.set(`(launch config ${entry.config.name}) ${vscode.workspace.asRelativePath(path)}`, path);
       }
     }
 
@@ -296,59 +488,99 @@ export class MirrordConfigManager {
   }
 
   /**
-   * Used when preparing mirrord environment for the process.
+   * Finds the mirrord config for the launch, without notifying the user. In order:
+   *  - active config of the folder (if set, and the config from the launch config is not pinned, @see MirrordLaunchOptions.configFilePinned)
+   *  - config from the launch config, `mirrord.configFile` or the `MIRRORD_CONFIG_FILE` env var (@see resolveConfigFilePath)
+   *  - default config from the `.mirrord` directory of the folder
    * @param folder optional origin of the launch config
    * @param config debug configuration used
-   * @returns path to the mirrord config
+   * @returns the found config and where it comes from
    */
-  public async resolveMirrordConfig(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<vscode.Uri | null> {
-    if (this.active) {
-      // User has selected a config (via active config button).
-      new NotificationBuilder()
-        .withMessage("Using active mirrord configuration.")
-        .withOpenFileAction(this.active)
-        .withDisableAction("promptUsingActiveConfig")
-        .info();
-
-      return this.active;
-    } else if (config.env?.["MIRRORD_CONFIG_FILE"]) {
-      // Get the config path from the env var.
-      const configFromEnv = vscode.Uri.parse(`file://${config.env?.["MIRRORD_CONFIG_FILE"]}`, true);
-
-      new NotificationBuilder()
-        .withMessage(`Using mirrord configuration from env var "MIRRORD_CONFIG_FILE".`)
-        .withOpenFileAction(configFromEnv)
-        .withDisableAction("promptUsingEnvVarConfig")
-        .info();
-
-      return configFromEnv;
-
+  public async resolveConfigSource(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<ConfigSource> {
+    const options = launchOptions(config);
+    const rawPath = options.configFile;
+    const pinned = options.configFilePinned && rawPath;
+
+    const active = this.activeConfigOf(folder);
+
+    if (active && !pinned) {
+      return { kind: 'active', path: active };
+    } else if (rawPath) {
+      const path = resolveConfigFilePath(rawPath, folder);
+      if (path !== undefined) {
+        try {
+          await vscode.workspace.fs.stat(path);
+          return { kind: 'env', path };
+        } catch {
+          // The file does not exist, reported as missing.
+        }
+      }
+      return { kind: 'missing', rawPath };
     } else if (folder) {
       const configFromMirrordFolder = await MirrordConfigManager.getDefaultConfig(folder);
+      return configFromMirrordFolder ? { kind: 'default', path: configFromMirrordFolder } : { kind: 'none' };
+    } else {
+      return { kind: 'noFolder' };
+    }
+  }
 
-      if (configFromMirrordFolder) {
+  /**
+   * Used when preparing mirrord environment for the process.
+   * Notifies the user about the config found with @see resolveConfigSource.
+   * @param folder optional origin of the launch config
+   * @param config debug configuration used
+   * @returns path to the mirrord config, null if there is no config,
+   * or undefined if the config set in the launch config does not exist and the launch should be aborted
+   */
+  public async resolveMirrordConfig(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<vscode.Uri | null | undefined> {
+    const source = await this.resolveConfigSource(folder, config);
+    switch (source.kind) {
+      case 'active':
+        // User has selected a config (via active config button).
+        new NotificationBuilder()
+          .withMessage("Using active mirrord configuration.")
+          .withOpenFileAction(source.path)
+          .withDisableAction("promptUsingActiveConfig")
+          .info();
+
+        return source.path;
+      case 'env':
+        new NotificationBuilder()
+          .withMessage(`Using mirrord configuration from launch configuration.`)
+          .withOpenFileAction(source.path)
+          .withDisableAction("promptUsingEnvVarConfig")
+          .info();
+
+        return source.path;
+      case 'missing':
+        new NotificationBuilder()
+          .withMessage(`mirrord config file "${source.rawPath}" from launch configuration does not exist.`)
+          .withGenericAction("Open launch.json", async () => openLaunchJson(folder))
+          .error();
+
+        return undefined;
+      case 'default':
         new NotificationBuilder()
           .withMessage(`Using mirrord configuration from ".mirrord" folder.`)
-          .withOpenFileAction(configFromMirrordFolder)
+          .withOpenFileAction(source.path)
           .withDisableAction("promptUsingDefaultConfig")
           .info();
 
-        return configFromMirrordFolder;
-      } else {
+        return source.path;
+      case 'none':
         // There is no configuration file in a .mirrord directory and no configuration file was specified
         // via "active configuration" extension setting or environment variable. This is a valid case.
         // mirrord will run without a configuration file.
         return null;
-      }
-    } else {
-      // User probably openend vscode in a single file, no folder is loaded and they have
-      // not set up the `MIRRORD_CONFIG_FILE` env var.
-      new NotificationBuilder()
-        .withMessage(`No folder open in editor - so not using a configuration file even if one exists.`)
-        .withDisableAction("promptUsingDefaultConfigSingleFileNoFolder")
-        .info();
-
-      return null;
+      case 'noFolder':
+        // User probably openend vscode in a single file, no folder is loaded and they have
+        // not set up the config file in the launch configuration.
+        new NotificationBuilder()
+          .withMessage(`No folder open in editor - so not using a configuration file even if one exists.`)
+          .withDisableAction("promptUsingDefaultConfigSingleFileNoFolder")
+          .info();
+
+        return null;
     }
   }
 }
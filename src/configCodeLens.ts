@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { selectionTarget } from './api';
+import { getMirrordAPI } from './binaryManager';
+import { CONFIG_FILE_PATTERNS, MirrordConfigManager } from './config';
+import { globalContext } from './extension';
+import { listLaunchConfigs, MirrordLaunchOptions, selectLaunchConfig } from './launchConfigs';
+import { NotificationBuilder } from './notification';
+import { TargetQuickPick } from './targetQuickPick';
+import Logger from './logger';
+
+/**
+ * Adds actions on top of mirrord config files: toggling the active config, validating the config,
+ * debugging a launch configuration with the config, and saving a target in the config.
+ */
+export class MirrordConfigCodeLens implements vscode.CodeLensProvider {
+  static readonly toggleActiveCommandId = 'mirrord.configLens.toggleActive';
+  static readonly validateCommandId = 'mirrord.configLens.validate';
+  static readonly debugCommandId = 'mirrord.configLens.debug';
+  static readonly pickTargetCommandId = 'mirrord.configLens.pickTarget';
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  register(): MirrordConfigCodeLens {
+    const selector = CONFIG_FILE_PATTERNS.map(pattern => {
+      return { scheme: 'file', pattern };
+    });
+    globalContext.subscriptions.push(vscode.languages.registerCodeLensProvider(selector, this));
+    globalContext.subscriptions.push(this.changeEmitter);
+
+    MirrordConfigManager.getInstance().onActiveConfigChange(async () => this.changeEmitter.fire());
+    globalContext.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('launch')) {
+        this.changeEmitter.fire();
+      }
+    }));
+
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigCodeLens.toggleActiveCommandId, MirrordConfigCodeLens.toggleActive));
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigCodeLens.validateCommandId, MirrordConfigCodeLens.validate));
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigCodeLens.debugCommandId, MirrordConfigCodeLens.debug));
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigCodeLens.pickTargetCommandId, MirrordConfigCodeLens.pickTarget));
+
+    return this;
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const range = new vscode.Range(0, 0, 0, 0);
+    const activeConfig = MirrordConfigManager.getInstance().activeConfigOf(MirrordConfigManager.folderOf(document.uri));
+    const active = activeConfig?.toString() === document.uri.toString();
+
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const launchConfigs = listLaunchConfigs().filter(entry => folder === undefined || entry.folder.uri.toString() === folder.uri.toString());
+    const debugTitle = launchConfigs.length === 1 ? `Debug "${launchConfigs[0]!.config.name}" with this config` : 'Debug with this config...';
+
+    return [
+      new vscode.CodeLens(range, {
+        title: active ? '$(pass-filled) Active config' : 'Set as active config',
+        tooltip: active ? 'Unset the active mirrord config' : 'Use this config for all launches in the workspace folder',
+        command: MirrordConfigCodeLens.toggleActiveCommandId,
+        arguments: [document.uri],
+      }),
+      new vscode.CodeLens(range, {
+        title: 'Validate',
+        tooltip: 'Verify the config with `mirrord verify-config`',
+        command: MirrordConfigCodeLens.validateCommandId,
+        arguments: [document.uri],
+      }),
+      new vscode.CodeLens(range, {
+        title: debugTitle,
+        command: MirrordConfigCodeLens.debugCommandId,
+        arguments: [document.uri],
+      }),
+      new vscode.CodeLens(range, {
+        title: 'Pick target and save',
+        tooltip: 'Select a target and save it in this config',
+        command: MirrordConfigCodeLens.pickTargetCommandId,
+        arguments: [document.uri],
+      }),
+    ];
+  }
+
+  /**
+   * Handles the `mirrord.configLens.toggleActive` command.
+   */
+  private static async toggleActive(uri: vscode.Uri) {
+    const configManager = MirrordConfigManager.getInstance();
+    const folder = MirrordConfigManager.folderOf(uri);
+    const active = configManager.activeConfigOf(folder)?.toString() === uri.toString();
+    configManager.setActiveConfig(folder, active ? undefined : uri);
+  }
+
+  /**
+   * Handles the `mirrord.configLens.validate` command.
+   * Errors and warnings are shown as notifications, and in the Problems panel by @see MirrordConfigDiagnostics.
+   */
+  private static async validate(uri: vscode.Uri) {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    if (document?.isDirty) {
+      await document.save();
+    }
+
+    let verified;
+    try {
+      const mirrordApi = await getMirrordAPI();
+      verified = await mirrordApi.verifyConfig(uri, {}, false);
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`failed to validate ${uri.fsPath}: ${errorMsg}`);
+      new NotificationBuilder()
+        .withMessage(`failed to validate mirrord config: ${errorMsg}`)
+        .error();
+      return;
+    }
+
+    if (verified?.type === 'Success') {
+      verified.warnings.forEach(warning => new NotificationBuilder().withMessage(warning).warning());
+      new NotificationBuilder()
+        .withMessage(`${vscode.workspace.asRelativePath(uri)} is a valid mirrord config`)
+        .info();
+    } else if (verified?.type === 'Fail') {
+      verified.errors.forEach(error => new NotificationBuilder().withMessage(error).error());
+    }
+  }
+
+  /**
+   * Handles the `mirrord.configLens.debug` command.
+   * Starts the selected launch configuration with mirrord enabled, using the config.
+   *
+   * The config is pinned in the `mirrord` property, so that it is used even if another config is active.
+   */
+  private static async debug(uri: vscode.Uri) {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const launchConfigs = listLaunchConfigs().filter(entry => folder === undefined || entry.folder.uri.toString() === folder.uri.toString());
+    const launch = launchConfigs.length === 1
+      ? launchConfigs[0]
+      : await selectLaunchConfig("Select launch configuration to debug with this mirrord config");
+    if (launch === undefined) {
+      return;
+    }
+
+    const mirrord: MirrordLaunchOptions = {
+      ...launch.config.mirrord,
+      enabled: true,
+      configFile: uri.fsPath,
+      configFilePinned: true,
+    };
+
+    await vscode.debug.startDebugging(launch.folder, { ...launch.config, mirrord });
+  }
+
+  /**
+   * Handles the `mirrord.configLens.pickTarget` command.
+   * Lets the user select a target with the @see TargetQuickPick, and saves it in the config,
+   * together with the selected container, namespace and kube context.
+   */
+  private static async pickTarget(uri: vscode.Uri) {
+    try {
+      const mirrordApi = await getMirrordAPI();
+      const getTargets = async (namespace?: string, context?: string) => {
+        return mirrordApi.listTargets(uri.fsPath, {}, TargetQuickPick.getSupportedTargetTypes(), namespace, context);
+      };
+
+      const quickPick = await TargetQuickPick.new(getTargets, { configPath: uri.fsPath, dismissAction: 'abort' });
+      const selection = await quickPick.showAndGet();
+      if (selection === undefined || selection.path === 'targetless') {
+        return;
+      }
+
+      await MirrordConfigManager.saveTarget(uri, undefined, selection);
+      new NotificationBuilder()
+        .withMessage(`Saved target ${selectionTarget(selection)} to ${vscode.workspace.asRelativePath(uri)}`)
+        .info();
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`failed to save target to ${uri.fsPath}: ${errorMsg}`);
+      new NotificationBuilder()
+        .withMessage(`failed to save target: ${errorMsg}`)
+        .error();
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isMirrordConfigFile, MirrordConfigManager } from './config';
+import { CONFIG_FORMATS, configFormat, parseConfig, stringifyConfig } from './configFile';
+import { globalContext } from './extension';
+import { launchConfigFile, launchOptions, listLaunchConfigs, setLaunchConfigFile } from './launchConfigs';
+import { NotificationBuilder } from './notification';
+import Logger from './logger';
+
+/**
+ * Converts mirrord configs between JSON, TOML and YAML.
+ *
+ * The converted config is written next to the original one, without the comments. References to the original config
+ * (`mirrord.configFile` or `MIRRORD_CONFIG_FILE` in launch configurations, and the active config) are moved to the converted one.
+ */
+export class MirrordConfigConverter {
+  static readonly convertCommandId = 'mirrord.convertConfig';
+
+  register(): MirrordConfigConverter {
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigConverter.convertCommandId, MirrordConfigConverter.convert));
+    return this;
+  }
+
+  /**
+   * Handles the `mirrord.convertConfig` command.
+   * @param uri config to convert, defaults to the one in the active editor
+   */
+  private static async convert(uri?: vscode.Uri) {
+    const source = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (source === undefined || !isMirrordConfigFile(source)) {
+      new NotificationBuilder()
+        .withMessage("open a mirrord config to convert it")
+        .warning();
+      return;
+    }
+
+    const sourceFormat = configFormat(source);
+    const target = await vscode.window.showQuickPick(CONFIG_FORMATS.filter(f => f.format !== sourceFormat), {
+      placeHolder: `Convert ${vscode.workspace.asRelativePath(source)} to`,
+    });
+    if (target === undefined) {
+      return;
+    }
+
+    const parsed = path.parse(source.fsPath);
+    const converted = vscode.Uri.file(path.join(parsed.dir, `${parsed.name}.${target.extension}`));
+
+    let exists = true;
+    try {
+      await vscode.workspace.fs.stat(converted);
+    } catch {
+      exists = false;
+    }
+    if (exists) {
+      const overwrite = await vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(converted)} already exists. Overwrite it?`,
+        { modal: true },
+        'Overwrite',
+      );
+      if (overwrite !== 'Overwrite') {
+        return;
+      }
+    }
+
+    try {
+      // Saved changes only, same as what mirrord would use.
+      const text = Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf8');
+      const config = parseConfig(text, sourceFormat);
+      await vscode.workspace.fs.writeFile(converted, Buffer.from(stringifyConfig(config, target.format)));
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`failed to convert mirrord config ${source.fsPath}: ${errorMsg}`);
+      new NotificationBuilder()
+        .withMessage(`failed to convert mirrord config: ${errorMsg}`)
+        .error();
+      return;
+    }
+
+    const updatedLaunchConfigs = await MirrordConfigConverter.moveReferences(source, converted);
+
+    const details = [`converted ${vscode.workspace.asRelativePath(source)} to ${vscode.workspace.asRelativePath(converted)}`];
+    if (updatedLaunchConfigs.length > 0) {
+      details.push(`updated launch configurations: ${updatedLaunchConfigs.join(', ')}`);
+    }
+
+    await vscode.window.showTextDocument(converted);
+    new NotificationBuilder()
+      .withMessage(details.join('; '))
+      .withGenericAction("Delete original", async () => vscode.workspace.fs.delete(source, { useTrash: true }))
+      .info();
+  }
+
+  /**
+   * Points the launch configurations and the active configs that use the original config at the converted one.
+   * @returns names of the updated launch configurations
+   */
+  private static async moveReferences(source: vscode.Uri, converted: vscode.Uri): Promise<string[]> {
+    const configManager = MirrordConfigManager.getInstance();
+    for (const folder of [undefined, ...(vscode.workspace.workspaceFolders ?? [])]) {
+      if (configManager.activeConfigOf(folder)?.fsPath === source.fsPath) {
+        configManager.setActiveConfig(folder, converted);
+      }
+    }
+
+    const updated: string[] = [];
+    for (const entry of listLaunchConfigs()) {
+      if (launchConfigFile(entry)?.fsPath !== source.fsPath) {
+        continue;
+      }
+
+      // Keep the style of the original value, e.g. `${workspaceFolder}/.mirrord/mirrord.json`.
+      const rawPath = launchOptions(entry.config).configFile!;
+      const newPath = rawPath.replace(/\.(json|toml|yml|yaml)$/, path.extname(converted.fsPath));
+      try {
+        await setLaunchConfigFile(entry, newPath);
+        updated.push(entry.config.name);
+      } catch (e) {
+        const errorMsg = e instanceof Error ? e.message : String(e);
+        Logger.error(`failed to update launch configuration ${entry.config.name}: ${errorMsg}`);
+        new NotificationBuilder()
+          .withMessage(`failed to update launch configuration ${entry.config.name}: ${errorMsg}`)
+          .error();
+      }
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MirrordAPI } from './api';
+import { findLocalMirrordBinary } from './binaryManager';
+import { isMirrordConfigFile, VerifiedConfig } from './config';
+import { globalContext } from './extension';
+import Logger from './logger';
+
+/**
+ * How long to wait after the last edit before verifying the config.
+ */
+const VERIFY_DEBOUNCE_MS = 750;
+
+/**
+ * Returns the range of the (nested) config key in a JSON, TOML or YAML document, if found.
+ *
+ * Each key of the path is searched for after the line of its parent, which is good enough to tell
+ * apart keys with the same name in different sections.
+ */
+export function findKeyPathRange(document: vscode.TextDocument, keyPath: string[]): vscode.Range | undefined {
+  let found: vscode.Range | undefined;
+  let startLine = 0;
+
+  for (const key of keyPath) {
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // `key:` (YAML), `"key":` (JSON), `key =` (TOML), and TOML tables/dotted keys, e.g. `[feature.env]`
+    const keyPattern = new RegExp(`(^|[\\s"'{,.\\[])(${escaped})["']?\\s*[:=.\\]]`);
+
+    let keyFound = false;
+    for (let line = startLine; line < document.lineCount; line++) {
+      const match = document.lineAt(line).text.match(keyPattern);
+      if (match?.index !== undefined) {
+        const start = match.index + match[1]!.length;
+        found = new vscode.Range(line, start, line, start + key.length);
+        startLine = line;
+        keyFound = true;
+        break;
+      }
+    }
+
+    if (!keyFound) {
+      break;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Returns the range of the config key mentioned in the `mirrord verify-config` message,
+ * e.g. `feature.network.incoming` -> line containing `incoming`.
+ *
+ * Falls back to the first line of the document.
+ */
+function findKeyRange(document: vscode.TextDocument, message: string): vscode.Range {
+  const candidates = [...message.matchAll(/`([^`]+)`|\b([a-z_]+(?:\.[a-z_]+)+)\b/g)]
+    .map(match => (match[1] ?? match[2] ?? '').split('.'))
+    .filter(keyPath => keyPath.every(key => /^[A-Za-z_][\w-]*$/.test(key)));
+
+  for (const keyPath of candidates) {
+    const range = findKeyPathRange(document, keyPath);
+    if (range !== undefined) {
+      return range;
+    }
+  }
+
+  return document.lineAt(0).range;
+}
+
+/**
+ * Converts the `mirrord verify-config` output to diagnostics for the given document.
+ */
+function toDiagnostics(document: vscode.TextDocument, verified: VerifiedConfig): vscode.Diagnostic[] {
+  const messages: [string, vscode.DiagnosticSeverity][] = verified.type === 'Success'
+    ? verified.warnings.map(warning => [warning, vscode.DiagnosticSeverity.Warning])
+    : verified.errors.map(error => [error, vscode.DiagnosticSeverity.Error]);
+
+  return messages.map(([message, severity]) => {
+    const diagnostic = new vscode.Diagnostic(findKeyRange(document, message), message, severity);
+    diagnostic.source = 'mirrord';
+    return diagnostic;
+  });
+}
+
+/**
+ * Runs `mirrord verify-config` on mirrord config files when they are opened, edited (debounced) or saved,
+ * and publishes the errors and warnings in the Problems panel.
+ */
+export class MirrordConfigDiagnostics {
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  /**
+   * Pending verifications, keyed by the document URI.
+   */
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+  /**
+   * The mirrord binary used for the verifications, resolved once it's found.
+   */
+  private cliPath?: Promise<string | null>;
+
+  constructor() {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('mirrord');
+  }
+
+  register(): MirrordConfigDiagnostics {
+    globalContext.subscriptions.push(this.diagnostics);
+
+    globalContext.subscriptions.push(vscode.workspace.onDidOpenTextDocument(document => this.schedule(document, 0)));
+    globalContext.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document, VERIFY_DEBOUNCE_MS)));
+    globalContext.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => this.schedule(document, 0)));
+    globalContext.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+      this.cancel(document.uri);
+      this.diagnostics.delete(document.uri);
+    }));
+    globalContext.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('mirrord.binaryPath')) {
+        this.cliPath = undefined;
+      }
+    }));
+
+    vscode.workspace.textDocuments.forEach(document => this.schedule(document, 0));
+
+    return this;
+  }
+
+  private cancel(uri: vscode.Uri) {
+    const timeout = this.pending.get(uri.toString());
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+      this.pending.delete(uri.toString());
+    }
+  }
+
+  private schedule(document: vscode.TextDocument, delayMs: number) {
+    if (document.uri.scheme !== 'file' || !isMirrordConfigFile(document.uri)) {
+      return;
+    }
+
+    this.cancel(document.uri);
+    this.pending.set(document.uri.toString(), setTimeout(() => {
+      this.pending.delete(document.uri.toString());
+      this.verify(document);
+    }, delayMs));
+  }
+
+  /**
+   * Returns the local mirrord binary, see @see findLocalMirrordBinary.
+   *
+   * The binary is looked up again on the next verification if it's not found, e.g. before it's downloaded on the first launch.
+   */
+  private async getCliPath(): Promise<string | null> {
+    if (this.cliPath === undefined) {
+      this.cliPath = findLocalMirrordBinary();
+    }
+
+    const cliPath = await this.cliPath;
+    if (cliPath === null) {
+      this.cliPath = undefined;
+    }
+    return cliPath;
+  }
+
+  /**
+   * Verifies the current content of the document.
+   *
+   * Unsaved content is written to a temporary file with the same name, so that the CLI detects the format.
+   */
+  private async verify(document: vscode.TextDocument) {
+    const version = document.version;
+
+    let tmpDir: string | undefined;
+    try {
+      const cliPath = await this.getCliPath();
+      if (!cliPath) {
+        return;
+      }
+
+      let configPath = document.uri;
+      if (document.isDirty) {
+        tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mirrord-verify-'));
+        const tmpPath = path.join(tmpDir, path.basename(document.uri.fsPath));
+        await fs.promises.writeFile(tmpPath, document.getText());
+        configPath = vscode.Uri.file(tmpPath);
+      }
+
+      const verified = await new MirrordAPI(cliPath).verifyConfig(configPath, {}, false);
+      if (verified === undefined || document.isClosed || document.version !== version) {
+        return;
+      }
+
+      this.diagnostics.set(document.uri, toDiagnostics(document, verified));
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.warn(`failed to verify mirrord config ${document.uri.fsPath}: ${errorMsg}`);
+
+      if (!document.isClosed && document.version === version) {
+        const diagnostic = new vscode.Diagnostic(document.lineAt(0).range, errorMsg, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'mirrord';
+        this.diagnostics.set(document.uri, [diagnostic]);
+      }
+    } finally {
+      if (tmpDir !== undefined) {
+        const dir = tmpDir;
+        fs.promises.rm(dir, { recursive: true, force: true })
+          .catch(e => Logger.warn(`failed to remove ${dir}: ${e instanceof Error ? e.message : String(e)}`));
+      }
+    }
+  }
+}
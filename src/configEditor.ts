@@ -0,0 +1,351 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { ConfigValue, configFormat, expandShorthands, parseConfig, setConfigValues, withShorthandValues } from './configFile';
+import { globalContext } from './extension';
+import { NotificationBuilder } from './notification';
+import Logger from './logger';
+
+/**
+ * A field in the config editor form.
+ */
+interface FormField {
+  key: string[];
+  label: string;
+  /**
+   * - `text`/`number` - single value
+   * - `select` - one of @see FormField.options
+   * - `boolean` - default, enabled or disabled
+   * - `list` - list of strings, one per line
+   */
+  kind: 'text' | 'number' | 'select' | 'boolean' | 'list';
+  options?: string[];
+  description?: string;
+}
+
+interface FormSection {
+  title: string;
+  fields: FormField[];
+}
+
+/**
+ * Sections of the config editor form.
+ */
+const FORM_SECTIONS: FormSection[] = [
+  {
+    title: 'Target',
+    fields: [
+      { key: ['target', 'path'], label: 'Path', kind: 'text', description: 'e.g. `deployment/my-app` or `pod/my-pod/container/my-container`. Leave empty to select the target when the session starts.' },
+      { key: ['target', 'namespace'], label: 'Namespace', kind: 'text', description: 'Namespace of the target. Defaults to the namespace of the current kube context.' },
+    ],
+  },
+  {
+    title: 'Network',
+    fields: [
+      { key: ['feature', 'network', 'incoming', 'mode'], label: 'Incoming traffic mode', kind: 'select', options: ['mirror', 'steal', 'off'], description: '`mirror` copies the incoming traffic of the target, `steal` redirects it to the local process.' },
+      { key: ['feature', 'network', 'incoming', 'http_filter', 'header_filter'], label: 'HTTP header filter', kind: 'text', description: 'Steal only HTTP requests with a header matching this regex, e.g. `x-user: me`.' },
+      { key: ['feature', 'network', 'incoming', 'http_filter', 'path_filter'], label: 'HTTP path filter', kind: 'text', description: 'Steal only HTTP requests with a path matching this regex.' },
+      { key: ['feature', 'network', 'outgoing', 'tcp'], label: 'Outgoing TCP', kind: 'boolean', description: 'Send outgoing TCP traffic from the target.' },
+      { key: ['feature', 'network', 'outgoing', 'udp'], label: 'Outgoing UDP', kind: 'boolean', description: 'Send outgoing UDP traffic from the target.' },
+      { key: ['feature', 'network', 'dns'], label: 'Remote DNS', kind: 'boolean', description: 'Resolve DNS queries in the cluster.' },
+    ],
+  },
+  {
+    title: 'File system',
+    fields: [
+      { key: ['feature', 'fs', 'mode'], label: 'Mode', kind: 'select', options: ['localwithoverrides', 'read', 'write', 'local'], description: 'Where files are read from and written to by default.' },
+      { key: ['feature', 'fs', 'read_write'], label: 'Read/write remotely', kind: 'list', description: 'Regexes of paths to read and write remotely, one per line.' },
+      { key: ['feature', 'fs', 'read_only'], label: 'Read remotely', kind: 'list', description: 'Regexes of paths to read remotely, one per line.' },
+      { key: ['feature', 'fs', 'local'], label: 'Local', kind: 'list', description: 'Regexes of paths to read and write locally, one per line.' },
+      { key: ['feature', 'fs', 'not_found'], label: 'Not found', kind: 'list', description: 'Regexes of paths that should be reported as not found, one per line.' },
+    ],
+  },
+  {
+    title: 'Environment',
+    fields: [
+      { key: ['feature', 'env', 'include'], label: 'Include', kind: 'list', description: 'Remote env vars to include, one per line. Supports `*` wildcards.' },
+      { key: ['feature', 'env', 'exclude'], label: 'Exclude', kind: 'list', description: 'Remote env vars to exclude, one per line. Supports `*` wildcards.' },
+    ],
+  },
+  {
+    title: 'Agent',
+    fields: [
+      { key: ['agent', 'namespace'], label: 'Namespace', kind: 'text', description: 'Namespace where the agent is spawned. Ignored when using the operator.' },
+      { key: ['agent', 'image'], label: 'Image', kind: 'text', description: 'Custom agent image.' },
+      { key: ['agent', 'log_level'], label: 'Log level', kind: 'text', description: 'e.g. `info` or `mirrord=debug`.' },
+      { key: ['agent', 'ttl'], label: 'TTL', kind: 'number', description: 'Seconds the agent waits for the first connection.' },
+      { key: ['agent', 'ephemeral'], label: 'Ephemeral', kind: 'boolean', description: 'Run the agent as an ephemeral container in the target pod.' },
+      { key: ['agent', 'privileged'], label: 'Privileged', kind: 'boolean', description: 'Run the agent as a privileged container.' },
+    ],
+  },
+];
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the inline markdown code in descriptions.
+ */
+function renderDescription(description: string): string {
+  return escapeHtml(description).replace(/`([^`]+)`/g, '<code>$1</code>');
+}
+
+function renderField(field: FormField): string {
+  const attributes = `id="${escapeHtml(field.key.join('.'))}" data-key="${escapeHtml(field.key.join('.'))}" data-kind="${field.kind}"`;
+
+  let input;
+  switch (field.kind) {
+    case 'text':
+      input = `<input type="text" ${attributes}>`;
+      break;
+    case 'number':
+      input = `<input type="number" min="0" ${attributes}>`;
+      break;
+    case 'select':
+      input = `<select ${attributes}><option value="">(default)</option>${(field.options ?? []).map(o => `<option value="${escapeHtml(o)}">${escapeHtml(o)}</option>`).join('')}</select>`;
+      break;
+    case 'boolean':
+      input = `<select ${attributes}><option value="">(default)</option><option value="true">enabled</option><option value="false">disabled</option></select>`;
+      break;
+    case 'list':
+      input = `<textarea rows="3" ${attributes}></textarea>`;
+      break;
+  }
+
+  const description = field.description ? `<div class="description">${renderDescription(field.description)}</div>` : '';
+  return `<div class="field"><label for="${escapeHtml(field.key.join('.'))}">${escapeHtml(field.label)}</label>${input}${description}</div>`;
+}
+
+/**
+ * Form-based editor for mirrord config files, registered as a custom editor for @see CONFIG_FILE_PATTERNS.
+ *
+ * Changes are written back to the underlying JSON, TOML or YAML document, keeping its formatting.
+ * The text editor stays the default one, this editor can be opened with @see MirrordConfigEditor.openCommandId.
+ */
+export class MirrordConfigEditor implements vscode.CustomTextEditorProvider {
+  static readonly viewType = 'mirrord.configEditor';
+  static readonly openCommandId = 'mirrord.configEditor.open';
+  static readonly viewSourceCommandId = 'mirrord.configEditor.viewSource';
+
+  /**
+   * Document displayed in the active config editor, if any.
+   */
+  private activeDocument?: vscode.Uri;
+
+  register(): MirrordConfigEditor {
+    globalContext.subscriptions.push(vscode.window.registerCustomEditorProvider(MirrordConfigEditor.viewType, this));
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigEditor.openCommandId, MirrordConfigEditor.open));
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigEditor.viewSourceCommandId, this.viewSource.bind(this)));
+    return this;
+  }
+
+  /**
+   * Handles the `mirrord.configEditor.open` command, opens the config in this editor.
+   */
+  private static async open(uri?: vscode.Uri) {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (target !== undefined) {
+      await vscode.commands.executeCommand('vscode.openWith', target, MirrordConfigEditor.viewType);
+    }
+  }
+
+  /**
+   * Handles the `mirrord.configEditor.viewSource` command, opens the config in the text editor.
+   */
+  private async viewSource(uri?: vscode.Uri) {
+    const target = uri ?? this.activeDocument;
+    if (target !== undefined) {
+      await vscode.commands.executeCommand('vscode.openWith', target, 'default');
+    }
+  }
+
+  resolveCustomTextEditor(document: vscode.TextDocument, panel: vscode.WebviewPanel): void {
+    panel.webview.options = { enableScripts: true };
+    panel.webview.html = MirrordConfigEditor.html(panel.webview);
+
+    const update = () => {
+      let config;
+      let error;
+      try {
+        config = expandShorthands(parseConfig(document.getText(), configFormat(document.uri)));
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+      panel.webview.postMessage({ type: 'update', config, error });
+    };
+
+    const changeSubscription = vscode.workspace.onDidChangeTextDocument(event => {
+      if (event.document.uri.toString() === document.uri.toString()) {
+        update();
+      }
+    });
+    panel.onDidDispose(() => {
+      changeSubscription.dispose();
+      if (this.activeDocument?.toString() === document.uri.toString()) {
+        this.activeDocument = undefined;
+      }
+    });
+
+    this.activeDocument = document.uri;
+    panel.onDidChangeViewState(event => {
+      if (event.webviewPanel.active) {
+        this.activeDocument = document.uri;
+      }
+    });
+
+    panel.webview.onDidReceiveMessage(async message => {
+      switch (message.type) {
+        case 'ready':
+          update();
+          break;
+        case 'set':
+          await MirrordConfigEditor.apply(document, [[message.key, message.value ?? undefined]]);
+          break;
+        case 'viewSource':
+          await this.viewSource(document.uri);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Sets the values in the document. The change is not saved, same as when editing the text.
+   */
+  private static async apply(document: vscode.TextDocument, values: ConfigValue[]) {
+    try {
+      const format = configFormat(document.uri);
+      const text = document.getText();
+      const updated = setConfigValues(text, format, withShorthandValues(parseConfig(text, format), values));
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), updated);
+      await vscode.workspace.applyEdit(edit);
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`failed to update mirrord config ${document.uri.fsPath}: ${errorMsg}`);
+      new NotificationBuilder()
+        .withMessage(`failed to update mirrord config: ${errorMsg}`)
+        .error();
+    }
+  }
+
+  private static html(webview: vscode.Webview): string {
+    const nonce = randomBytes(16).toString('base64');
+    const sections = FORM_SECTIONS
+      .map(section => `<section><h2>${escapeHtml(section.title)}</h2>${section.fields.map(renderField).join('')}</section>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>mirrord config</title>
+  <style nonce="${nonce}">
+    body { max-width: 720px; padding: 0 20px 20px; }
+    header { display: flex; align-items: center; justify-content: space-between; }
+    section { margin-bottom: 16px; }
+    h2 { font-size: 1.1em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+    .field { margin: 10px 0; }
+    label { display: block; font-weight: 600; margin-bottom: 4px; }
+    input, select, textarea {
+      width: 100%; box-sizing: border-box; padding: 4px;
+      color: var(--vscode-input-foreground); background: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent); font-family: inherit;
+    }
+    textarea { font-family: var(--vscode-editor-font-family); resize: vertical; }
+    .description { color: var(--vscode-descriptionForeground); font-size: 0.9em; margin-top: 2px; }
+    #error { display: none; padding: 8px; margin-bottom: 12px; color: var(--vscode-errorForeground); border: 1px solid var(--vscode-inputValidation-errorBorder); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>mirrord config</h1>
+    <button id="view-source">View source</button>
+  </header>
+  <div id="error"></div>
+  ${sections}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const fields = [...document.querySelectorAll('[data-key]')];
+
+    function getIn(config, key) {
+      return key.reduce((value, k) => value !== null && typeof value === 'object' && !Array.isArray(value) ? value[k] : undefined, config);
+    }
+
+    function display(field, value) {
+      const kind = field.dataset.kind;
+      if (value === undefined || value === null) {
+        return '';
+      } else if (kind === 'list' && Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        return value.join('\\n');
+      } else if (kind === 'list' && typeof value === 'string') {
+        return value.split(';').join('\\n');
+      } else if (typeof value === 'object') {
+        return undefined;
+      } else {
+        return String(value);
+      }
+    }
+
+    function read(field) {
+      const raw = field.value.trim();
+      switch (field.dataset.kind) {
+        case 'number':
+          return raw.length === 0 || isNaN(Number(raw)) ? null : Number(raw);
+        case 'boolean':
+          return raw.length === 0 ? null : raw === 'true';
+        case 'list': {
+          const items = raw.split('\\n').map(item => item.trim()).filter(item => item.length > 0);
+          return items.length === 0 ? null : items;
+        }
+        default:
+          return raw.length === 0 ? null : raw;
+      }
+    }
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.type !== 'update') {
+        return;
+      }
+
+      const error = document.getElementById('error');
+      error.textContent = message.error ? 'The config could not be parsed, fix it in the source: ' + message.error : '';
+      error.style.display = message.error ? 'block' : 'none';
+
+      for (const field of fields) {
+        if (message.error) {
+          field.disabled = true;
+          continue;
+        }
+
+        const value = display(field, getIn(message.config, field.dataset.key.split('.')));
+        // Values that the form cannot represent must be edited in the source.
+        field.disabled = value === undefined;
+        field.title = value === undefined ? 'Edit this value in the source' : '';
+        if (field !== document.activeElement && value !== undefined) {
+          if (field.tagName === 'SELECT' && value.length > 0 && ![...field.options].some(o => o.value === value)) {
+            field.add(new Option(value, value));
+          }
+          field.value = value;
+        }
+      }
+    });
+
+    for (const field of fields) {
+      field.addEventListener('change', () => {
+        vscode.postMessage({ type: 'set', key: field.dataset.key.split('.'), value: read(field) });
+      });
+    }
+
+    document.getElementById('view-source').addEventListener('click', () => vscode.postMessage({ type: 'viewSource' }));
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,337 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { parse as parseToml, patch as patchToml } from '@decimalturn/toml-patch';
+import * as YAML from 'yaml';
+
+/**
+ * Formats of the mirrord config files.
+ */
+export type ConfigFormat = 'json' | 'toml' | 'yaml';
+
+/**
+ * Quick pick items of the config formats, with the file extension used for each.
+ */
+export const CONFIG_FORMATS: (vscode.QuickPickItem & { format: ConfigFormat, extension: string })[] = [
+  { label: 'JSON', format: 'json', extension: 'json' },
+  { label: 'TOML', format: 'toml', extension: 'toml' },
+  { label: 'YAML', format: 'yaml', extension: 'yaml' },
+];
+
+/**
+ * A value to set in the mirrord config, e.g. `[['target', 'path'], 'pod/my-pod']`.
+ *
+ * `undefined` removes the key from the config.
+ */
+export type ConfigValue = [string[], string | number | boolean | string[] | undefined];
+
+/**
+ * Returns the format of the given mirrord config file, based on its extension.
+ */
+export function configFormat(uri: vscode.Uri): ConfigFormat {
+  const path = uri.path.toLowerCase();
+  if (path.endsWith('.toml')) {
+    return 'toml';
+  } else if (path.endsWith('.yml') || path.endsWith('.yaml')) {
+    return 'yaml';
+  } else {
+    return 'json';
+  }
+}
+
+/**
+ * Parses the given config text.
+ *
+ * @throws if the text is not valid in the given format
+ */
+export function parseConfig(text: string, format: ConfigFormat): unknown {
+  switch (format) {
+    case 'json': {
+      const errors: jsonc.ParseError[] = [];
+      const parsed = jsonc.parse(text, errors, { allowTrailingComma: true });
+      if (errors.length > 0) {
+        throw new Error(`invalid JSON: ${jsonc.printParseErrorCode(errors[0]!.error)} at offset ${errors[0]!.offset}`);
+      }
+      return parsed ?? {};
+    }
+    case 'toml':
+      return parseToml(text);
+    case 'yaml': {
+      const doc = YAML.parseDocument(text);
+      if (doc.errors.length > 0) {
+        throw doc.errors[0];
+      }
+      return doc.toJS() ?? {};
+    }
+  }
+}
+
+/**
+ * Formats a key as TOML, quoting it if needed.
+ */
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isArrayOfTables(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isTable);
+}
+
+/**
+ * Config sections that can be given as a single value, e.g. `"target": "pod/my-pod"`,
+ * and the field the value maps to.
+ */
+const SHORTHANDS: [string[], string][] = [
+  [['target'], 'path'],
+  [['feature', 'network', 'incoming'], 'mode'],
+  [['feature', 'fs'], 'mode'],
+];
+
+function getIn(config: unknown, key: string[]): unknown {
+  return key.reduce<unknown>((value, k) => isTable(value) ? value[k] : undefined, config);
+}
+
+/**
+ * Returns a copy of the config where the shorthand sections are expanded,
+ * e.g. `"target": "pod/my-pod"` -> `"target": { "path": "pod/my-pod" }`.
+ */
+export function expandShorthands(config: unknown): unknown {
+  const expanded = JSON.parse(JSON.stringify(config ?? {}));
+  for (const [section, field] of SHORTHANDS) {
+    const parent = getIn(expanded, section.slice(0, -1));
+    const last = section[section.length - 1]!;
+    if (isTable(parent) && typeof parent[last] === 'string') {
+      parent[last] = { [field]: parent[last] };
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Prepends values that keep the shorthand sections when a field inside is set,
+ * e.g. setting `target.namespace` with `"target": "pod/my-pod"` also sets `target.path`.
+ * Removing a field inside leaves the shorthand as it is.
+ */
+export function withShorthandValues(config: unknown, values: ConfigValue[]): ConfigValue[] {
+  const keep: ConfigValue[] = [];
+  for (const [section, field] of SHORTHANDS) {
+    const current = getIn(config, section);
+    const fieldKey = [...section, field].join('.');
+    const touched = values.some(([key, value]) => value !== undefined && key.length > section.length && section.every((k, idx) => key[idx] === k));
+    if (typeof current === 'string' && touched && !values.some(([key]) => key.join('.') === fieldKey)) {
+      keep.push([[...section, field], current]);
+    }
+  }
+  return [...keep, ...values];
+}
+
+/**
+ * Formats a value as inline TOML, e.g. `["a", 1]` or `{ key = "value" }`.
+ */
+function tomlInlineValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.filter(item => item !== null).map(tomlInlineValue).join(', ')}]`;
+  } else if (isTable(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== null && v !== undefined);
+    return entries.length === 0 ? '{}' : `{ ${entries.map(([k, v]) => `${tomlKey(k)} = ${tomlInlineValue(v)}`).join(', ')} }`;
+  } else if (typeof value === 'string') {
+    // JSON strings are valid TOML basic strings.
+    return JSON.stringify(value);
+  } else {
+    return String(value);
+  }
+}
+
+/**
+ * Formats the table as TOML. Plain values go first, then sub-tables and arrays of tables.
+ *
+ * TOML has no null, so null values are skipped.
+ */
+function tomlTable(table: Record<string, unknown>, path: string[], lines: string[]) {
+  const entries = Object.entries(table).filter(([, value]) => value !== null && value !== undefined);
+
+  for (const [key, value] of entries) {
+    if (!isTable(value) && !isArrayOfTables(value)) {
+      lines.push(`${tomlKey(key)} = ${tomlInlineValue(value)}`);
+    }
+  }
+
+  for (const [key, value] of entries) {
+    const childPath = [...path, tomlKey(key)];
+    if (isTable(value)) {
+      // Tables with only sub-tables don't need their own header.
+      if (Object.values(value).some(v => v !== null && !isTable(v) && !isArrayOfTables(v)) || Object.keys(value).length === 0) {
+        lines.push('', `[${childPath.join('.')}]`);
+      }
+      tomlTable(value, childPath, lines);
+    } else if (isArrayOfTables(value)) {
+      for (const item of value) {
+        lines.push('', `[[${childPath.join('.')}]]`);
+        tomlTable(item, childPath, lines);
+      }
+    }
+  }
+}
+
+/**
+ * Formats the parsed config in the given format.
+ */
+export function stringifyConfig(config: unknown, format: ConfigFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(config, null, 4)}\n`;
+    case 'toml': {
+      const lines: string[] = [];
+      tomlTable(isTable(config) ? config : {}, [], lines);
+      return `${lines.join('\n').trimStart()}\n`;
+    }
+    case 'yaml':
+      return YAML.stringify(config);
+  }
+}
+
+/**
+ * Returns the end of line sequence used in the text.
+ */
+function detectEol(text: string): string {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Returns the options for editing the JSON text with `jsonc-parser`, matching its indentation.
+ */
+export function jsonFormattingOptions(text: string): jsonc.FormattingOptions {
+  const indentMatch = text.match(/^([ \t]+)\S/m);
+  const indent = indentMatch?.[1] ?? '    ';
+  return {
+    insertSpaces: !indent.startsWith('\t'),
+    tabSize: indent.startsWith('\t') ? 1 : indent.length,
+    eol: detectEol(text),
+  };
+}
+
+/**
+ * Sets the values in a JSON config, keeping the formatting and comments.
+ *
+ * Parents that are not objects (e.g. `"target": "pod/my-pod"`) are replaced.
+ */
+function setJsonValues(text: string, values: ConfigValue[]): string {
+  const formattingOptions = jsonFormattingOptions(text);
+
+  let result = text.trim().length > 0 ? text : '{}';
+  for (const [key, value] of values) {
+    for (let i = 1; i < key.length && value !== undefined; i++) {
+      const root = jsonc.parseTree(result);
+      const parent = root && jsonc.findNodeAtLocation(root, key.slice(0, i));
+      if (parent !== undefined && parent.type !== 'object') {
+        result = jsonc.applyEdits(result, jsonc.modify(result, key.slice(0, i), {}, { formattingOptions }));
+      }
+    }
+
+    result = jsonc.applyEdits(result, jsonc.modify(result, key, value, { formattingOptions }));
+  }
+
+  return result;
+}
+
+/**
+ * Sets the values in a YAML config, keeping the formatting and comments.
+ *
+ * Parents that are not maps (e.g. `target: pod/my-pod`) are replaced.
+ */
+function setYamlValues(text: string, values: ConfigValue[]): string {
+  const doc = YAML.parseDocument(text);
+  for (const [key, value] of values) {
+    if (value === undefined) {
+      if (doc.hasIn(key)) {
+        doc.deleteIn(key);
+      }
+      continue;
+    }
+
+    for (let i = 1; i < key.length; i++) {
+      const parent = doc.getIn(key.slice(0, i), true);
+      if (parent !== undefined && !YAML.isMap(parent)) {
+        doc.setIn(key.slice(0, i), doc.createNode({}));
+      }
+    }
+
+    doc.setIn(key, value);
+  }
+
+  return doc.toString();
+}
+
+/**
+ * Sets a single value in the parsed TOML config.
+ *
+ * Parents that are not tables (e.g. `target = "pod/my-pod"`) are replaced.
+ * `undefined` removes the key, if found.
+ */
+function setTomlValue(config: Record<string, unknown>, key: string[], value: ConfigValue[1]) {
+  let table = config;
+  for (const part of key.slice(0, -1)) {
+    const child = table[part];
+    if (isTable(child)) {
+      table = child;
+      continue;
+    }
+
+    if (value === undefined) {
+      return;
+    }
+    const created: Record<string, unknown> = {};
+    table[part] = created;
+    table = created;
+  }
+
+  const leaf = key[key.length - 1]!;
+  if (value === undefined) {
+    delete table[leaf];
+  } else {
+    table[leaf] = value;
+  }
+}
+
+/**
+ * Sets the values in a TOML config, keeping the formatting and comments.
+ *
+ * The values are set in the parsed config, and `toml-patch` writes the changes back to the text.
+ * This way quoted and dotted keys, inline tables and multi-line arrays are edited as TOML, not as lines.
+ */
+function setTomlValues(text: string, values: ConfigValue[]): string {
+  const parsed: unknown = parseToml(text);
+  const config = isTable(parsed) ? parsed : {};
+  for (const [key, value] of values) {
+    setTomlValue(config, key, value);
+  }
+
+  const patched = patchToml(text, config);
+  return text.trim().length === 0 ? `${patched}\n` : patched;
+}
+
+/**
+ * Sets the values in the given config text, keeping its formatting.
+ */
+export function setConfigValues(text: string, format: ConfigFormat, values: ConfigValue[]): string {
+  switch (format) {
+    case 'json':
+      return setJsonValues(text, values);
+    case 'toml':
+      return setTomlValues(text, values);
+    case 'yaml':
+      return setYamlValues(text, values);
+  }
+}
+
+/**
+ * Sets the values in the given mirrord config file, keeping its formatting.
+ */
+export async function updateConfigFile(uri: vscode.Uri, values: ConfigValue[]): Promise<void> {
+  const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  const updated = setConfigValues(text, configFormat(uri), values);
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(updated));
+}
@@ -0,0 +1,556 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { parse as parseToml } from '@decimalturn/toml-patch';
+import * as YAML from 'yaml';
+import { CONFIG_FILE_PATTERNS, isMirrordConfigFile } from './config';
+import { findKeyPathRange } from './configDiagnostics';
+import { configFormat } from './configFile';
+import { globalContext } from './extension';
+import Logger from './logger';
+
+/**
+ * The mirrord config JSON schema, same as in the `jsonValidation` contribution.
+ */
+const SCHEMA_URL = 'https://raw.githubusercontent.com/metalbear-co/mirrord/latest/mirrord-schema.json';
+
+/**
+ * Name of the file in the extension global storage, where the last downloaded schema is cached.
+ */
+const SCHEMA_CACHE_FILE = 'mirrord-schema.json';
+
+/**
+ * TOML and YAML mirrord config files. JSON configs are handled by VS Code, with the `jsonValidation` contribution.
+ */
+const TOML_YAML_CONFIG_SELECTOR: vscode.DocumentFilter[] = CONFIG_FILE_PATTERNS.map(pattern => {
+  return { scheme: 'file', pattern: pattern.replace('{json,toml,yml,yaml}', '{toml,yml,yaml}') };
+});
+
+/**
+ * A node of the JSON schema, only the parts used by this module.
+ */
+interface SchemaNode {
+  $ref?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  anyOf?: SchemaNode[];
+  oneOf?: SchemaNode[];
+  allOf?: SchemaNode[];
+}
+
+/**
+ * A value in the config that does not match the schema.
+ */
+interface SchemaProblem {
+  /**
+   * Path of the offending key.
+   */
+  keyPath: string[];
+  message: string;
+}
+
+/**
+ * Returns the JSON schema type of the value.
+ */
+function valueType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  } else if (Array.isArray(value)) {
+    return 'array';
+  } else if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  } else {
+    return typeof value;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * The position of a TOML syntax error, reported by `toml-patch`. The line is 1-based, the column 0-based.
+ */
+function isTomlSyntaxError(e: unknown): e is { line: number, column: number } {
+  return typeof e === 'object' && e !== null && 'line' in e && 'column' in e;
+}
+
+/**
+ * The mirrord config JSON schema.
+ *
+ * The schema is downloaded once per session and cached in the extension global storage,
+ * so that it works offline.
+ */
+class MirrordConfigSchema {
+  private root?: SchemaNode;
+
+  /**
+   * Loads the cached schema, and downloads the latest one.
+   *
+   * Waits for the download only if there is no cached schema.
+   *
+   * @param onUpdate called when the schema is downloaded
+   */
+  async load(onUpdate: () => void) {
+    const cacheUri = vscode.Uri.joinPath(globalContext.globalStorageUri, SCHEMA_CACHE_FILE);
+
+    try {
+      this.root = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(cacheUri)).toString('utf8'));
+    } catch {
+      Logger.debug('no cached mirrord config schema');
+    }
+
+    const download = (async () => {
+      try {
+        const response = await axios.get(SCHEMA_URL, { timeout: 5000, responseType: 'text' });
+        this.root = JSON.parse(response.data);
+        await vscode.workspace.fs.createDirectory(globalContext.globalStorageUri);
+        await vscode.workspace.fs.writeFile(cacheUri, Buffer.from(response.data));
+        onUpdate();
+      } catch (e) {
+        const errorMsg = e instanceof Error ? e.message : String(e);
+        Logger.warn(`failed to download mirrord config schema: ${errorMsg}`);
+      }
+    })();
+
+    if (this.root === undefined) {
+      await download;
+    }
+  }
+
+  get loaded(): boolean {
+    return this.root !== undefined;
+  }
+
+  /**
+   * Follows the `$ref`, e.g. `#/definitions/IncomingConfig`.
+   */
+  private resolve(node: SchemaNode): SchemaNode {
+    let resolved = node;
+    while (resolved.$ref !== undefined && resolved.$ref.startsWith('#/')) {
+      let target: unknown = this.root;
+      for (const segment of resolved.$ref.slice(2).split('/')) {
+        target = isObject(target) ? target[segment] : undefined;
+      }
+      if (!isObject(target)) {
+        break;
+      }
+      resolved = target as SchemaNode;
+    }
+    return resolved;
+  }
+
+  /**
+   * Returns the node and all its `anyOf`/`oneOf`/`allOf` subschemas, resolved.
+   */
+  private variants(node: SchemaNode): SchemaNode[] {
+    const resolved = this.resolve(node);
+    const nested = [...(resolved.anyOf ?? []), ...(resolved.oneOf ?? []), ...(resolved.allOf ?? [])];
+    return [resolved, ...nested.flatMap(n => this.variants(n))];
+  }
+
+  /**
+   * Returns the schema nodes describing the value at the given key path. Arrays are traversed transparently.
+   */
+  nodesAt(keyPath: string[]): SchemaNode[] {
+    if (this.root === undefined) {
+      return [];
+    }
+
+    let nodes = [this.root];
+    for (const key of keyPath) {
+      nodes = nodes
+        .flatMap(n => this.variants(n))
+        .flatMap(n => n.items !== undefined ? [n, ...this.variants(n.items)] : [n])
+        .flatMap(n => {
+          const property = n.properties?.[key];
+          if (property !== undefined) {
+            return [property];
+          }
+          return typeof n.additionalProperties === 'object' ? [n.additionalProperties] : [];
+        });
+    }
+    return nodes;
+  }
+
+  /**
+   * Returns the properties allowed in the value described by the nodes.
+   */
+  properties(nodes: SchemaNode[]): Map<string, SchemaNode> {
+    const properties = new Map<string, SchemaNode>();
+    nodes
+      .flatMap(n => this.variants(n))
+      .flatMap(n => n.items !== undefined ? [n, ...this.variants(n.items)] : [n])
+      .forEach(n => Object.entries(n.properties ?? {}).forEach(([key, value]) => {
+        if (!properties.has(key)) {
+          properties.set(key, value);
+        }
+      }));
+    return properties;
+  }
+
+  /**
+   * Returns the scalar values allowed by the nodes (enum values and booleans).
+   */
+  values(nodes: SchemaNode[]): { value: unknown, description?: string }[] {
+    const values: { value: unknown, description?: string }[] = [];
+    const add = (value: unknown, description?: string) => {
+      if (!values.some(v => v.value === value)) {
+        values.push({ value, description });
+      }
+    };
+
+    for (const node of nodes.flatMap(n => this.variants(n))) {
+      node.enum?.forEach(value => add(value, node.enum?.length === 1 ? node.description : undefined));
+      if (node.const !== undefined) {
+        add(node.const, node.description);
+      }
+      const types = Array.isArray(node.type) ? node.type : [node.type];
+      if (types.includes('boolean')) {
+        add(true);
+        add(false);
+      }
+    }
+
+    return values.filter(v => v.value !== null);
+  }
+
+  /**
+   * Returns a markdown description of the nodes, for hovers and completions.
+   */
+  describe(nodes: SchemaNode[]): vscode.MarkdownString {
+    const variants = nodes.flatMap(n => this.variants(n));
+    const markdown = new vscode.MarkdownString();
+
+    const description = variants.find(n => n.description !== undefined)?.description;
+    if (description !== undefined) {
+      markdown.appendMarkdown(description);
+    }
+
+    const types = [...new Set(variants.flatMap(n => n.type === undefined ? [] : Array.isArray(n.type) ? n.type : [n.type]))]
+      .filter(t => t !== 'null');
+    if (types.length > 0) {
+      markdown.appendMarkdown(`\n\nType: \`${types.join(' | ')}\``);
+    }
+
+    const values = this.values(nodes).filter(v => typeof v.value === 'string');
+    if (values.length > 0) {
+      markdown.appendMarkdown(`\n\nValues: ${values.map(v => `\`${v.value}\``).join(', ')}`);
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Validates the value against the nodes, collecting the problems.
+   *
+   * `anyOf`/`oneOf`/`allOf` are treated leniently, the value is valid if it matches any of the subschemas.
+   */
+  validate(value: unknown, nodes: SchemaNode[], keyPath: string[], problems: SchemaProblem[]) {
+    const variants = nodes.flatMap(n => this.variants(n));
+    const constrained = variants.filter(n => n.type !== undefined || n.enum !== undefined || n.const !== undefined || n.properties !== undefined);
+    if (constrained.length === 0) {
+      return;
+    }
+
+    const type = valueType(value);
+    const matching = constrained.filter(n => {
+      if (n.enum !== undefined && !n.enum.includes(value)) {
+        return false;
+      }
+      if (n.const !== undefined && n.const !== value) {
+        return false;
+      }
+      if (n.type === undefined) {
+        return n.properties === undefined || type === 'object';
+      }
+      const types = Array.isArray(n.type) ? n.type : [n.type];
+      return types.includes(type) || (type === 'integer' && types.includes('number'));
+    });
+
+    if (matching.length === 0) {
+      const values = this.values(nodes).map(v => JSON.stringify(v.value));
+      const types = [...new Set(constrained.flatMap(n => n.type === undefined ? [] : Array.isArray(n.type) ? n.type : [n.type]))];
+      const expected = values.length > 0 ? values.join(', ') : types.join(' | ');
+      problems.push({ keyPath, message: `Unexpected value of \`${keyPath.join('.') || 'config'}\`, expected: ${expected}` });
+      return;
+    }
+
+    if (type === 'object') {
+      const properties = this.properties(matching);
+      const additional = matching.filter(n => n.properties !== undefined || n.additionalProperties !== undefined);
+      const allowsUnknown = additional.length === 0 || additional.some(n => n.additionalProperties !== false);
+
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        const childPath = [...keyPath, key];
+        const property = properties.get(key);
+        if (property !== undefined) {
+          this.validate(child, [property], childPath, problems);
+        } else if (!allowsUnknown) {
+          problems.push({ keyPath: childPath, message: `Unknown key \`${childPath.join('.')}\`` });
+        } else {
+          const schemas = matching.flatMap(n => typeof n.additionalProperties === 'object' ? [n.additionalProperties] : []);
+          this.validate(child, schemas, childPath, problems);
+        }
+      }
+    } else if (type === 'array') {
+      const items = matching.flatMap(n => n.items !== undefined ? [n.items] : []);
+      (value as unknown[]).forEach(item => this.validate(item, items, keyPath, problems));
+    }
+  }
+}
+
+/**
+ * Returns the key path of the parents of the YAML key at the given line and indentation.
+ */
+function yamlParentPath(document: vscode.TextDocument, line: number, indent: number): string[] {
+  const keyPath: string[] = [];
+  let currentIndent = indent;
+  for (let l = line - 1; l >= 0 && currentIndent > 0; l--) {
+    const match = document.lineAt(l).text.match(/^(\s*)(-\s+)?["']?([\w.-]+)["']?\s*:/);
+    if (match === null) {
+      continue;
+    }
+
+    const keyIndent = match[1]!.length + (match[2]?.length ?? 0);
+    if (keyIndent < currentIndent) {
+      keyPath.unshift(match[3]!);
+      // Keys of a list item are children of the key holding the list.
+      currentIndent = match[1]!.length;
+    }
+  }
+  return keyPath;
+}
+
+/**
+ * Returns the key path of the TOML table the given line belongs to.
+ */
+function tomlTablePath(document: vscode.TextDocument, line: number): string[] {
+  for (let l = line; l >= 0; l--) {
+    const match = document.lineAt(l).text.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/);
+    if (match !== null) {
+      return match[1]!.split('.').map(key => key.trim().replace(/^["']|["']$/g, ''));
+    }
+  }
+  return [];
+}
+
+/**
+ * Where the cursor is in a TOML/YAML config: at a key, or at the value of a key.
+ */
+type CursorContext = { kind: 'key', parentPath: string[] } | { kind: 'value', keyPath: string[], quoted: boolean };
+
+/**
+ * Returns where the cursor is in the TOML/YAML config.
+ */
+function cursorContext(document: vscode.TextDocument, position: vscode.Position): CursorContext | undefined {
+  const prefix = document.lineAt(position.line).text.slice(0, position.character);
+
+  if (configFormat(document.uri) === 'toml') {
+    const header = prefix.match(/^\s*\[\[?\s*([\w.-]*)$/);
+    if (header !== null) {
+      return { kind: 'key', parentPath: header[1]!.split('.').slice(0, -1) };
+    }
+
+    const table = tomlTablePath(document, position.line - 1);
+    const value = prefix.match(/^\s*([\w.-]+)\s*=\s*(["']?)[\w-]*$/);
+    if (value !== null) {
+      return { kind: 'value', keyPath: [...table, ...value[1]!.split('.')], quoted: value[2]!.length > 0 };
+    }
+
+    const key = prefix.match(/^\s*([\w.-]*)$/);
+    if (key !== null) {
+      return { kind: 'key', parentPath: [...table, ...key[1]!.split('.').slice(0, -1)] };
+    }
+  } else {
+    const value = prefix.match(/^(\s*)(-\s+)?([\w-]+)\s*:\s+(["']?)[\w-]*$/);
+    if (value !== null) {
+      const indent = value[1]!.length + (value[2]?.length ?? 0);
+      return { kind: 'value', keyPath: [...yamlParentPath(document, position.line, indent), value[3]!], quoted: value[4]!.length > 0 };
+    }
+
+    const key = prefix.match(/^(\s*)(-\s+)?[\w-]*$/);
+    if (key !== null) {
+      const indent = key[1]!.length + (key[2]?.length ?? 0);
+      return { kind: 'key', parentPath: yamlParentPath(document, position.line, indent) };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the key path of the TOML/YAML key at the given position, used for hovers.
+ */
+function keyPathAt(document: vscode.TextDocument, position: vscode.Position): [string[], vscode.Range] | undefined {
+  const range = document.getWordRangeAtPosition(position, /[\w-]+/);
+  if (range === undefined) {
+    return undefined;
+  }
+
+  const word = document.getText(range);
+  const text = document.lineAt(position.line).text;
+
+  if (configFormat(document.uri) === 'toml') {
+    const header = text.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?/);
+    const key = text.match(/^\s*([\w.-]+)\s*=/);
+    const keyText = header?.[1] ?? key?.[1];
+    if (keyText === undefined || range.end.character > text.indexOf(keyText) + keyText.length) {
+      return undefined;
+    }
+
+    const segments = keyText.split('.').map(s => s.trim());
+    const idx = segments.indexOf(word);
+    if (idx === -1) {
+      return undefined;
+    }
+
+    const parentPath = header !== null ? [] : tomlTablePath(document, position.line - 1);
+    return [[...parentPath, ...segments.slice(0, idx + 1)], range];
+  } else {
+    const key = text.match(/^(\s*)(-\s+)?["']?([\w-]+)["']?\s*:/);
+    if (key === null || key[3] !== word) {
+      return undefined;
+    }
+
+    const indent = key[1]!.length + (key[2]?.length ?? 0);
+    return [[...yamlParentPath(document, position.line, indent), word], range];
+  }
+}
+
+/**
+ * Provides completion, hover and schema validation for TOML and YAML mirrord configs,
+ * driven by the mirrord config JSON schema.
+ */
+export class MirrordConfigSchemaSupport implements vscode.CompletionItemProvider, vscode.HoverProvider {
+  private readonly schema = new MirrordConfigSchema();
+  private readonly diagnostics: vscode.DiagnosticCollection;
+
+  constructor() {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('mirrord-schema');
+  }
+
+  register(): MirrordConfigSchemaSupport {
+    globalContext.subscriptions.push(this.diagnostics);
+    globalContext.subscriptions.push(vscode.languages.registerCompletionItemProvider(TOML_YAML_CONFIG_SELECTOR, this, '.', '[', ':', '=', '"'));
+    globalContext.subscriptions.push(vscode.languages.registerHoverProvider(TOML_YAML_CONFIG_SELECTOR, this));
+
+    globalContext.subscriptions.push(vscode.workspace.onDidOpenTextDocument(document => this.validate(document)));
+    globalContext.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => this.validate(event.document)));
+    globalContext.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)));
+
+    const validateAll = () => vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    this.schema.load(validateAll).then(validateAll);
+
+    return this;
+  }
+
+  /**
+   * Returns whether the document is a TOML or YAML mirrord config.
+   */
+  private static isTomlOrYamlConfig(document: vscode.TextDocument): boolean {
+    return document.uri.scheme === 'file' && isMirrordConfigFile(document.uri) && configFormat(document.uri) !== 'json';
+  }
+
+  /**
+   * Validates the document against the schema, and publishes the problems in the Problems panel.
+   */
+  private validate(document: vscode.TextDocument) {
+    if (!MirrordConfigSchemaSupport.isTomlOrYamlConfig(document) || !this.schema.loaded) {
+      return;
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    const text = document.getText();
+
+    let parsed: unknown;
+    if (configFormat(document.uri) === 'toml') {
+      try {
+        parsed = parseToml(text);
+      } catch (e) {
+        const position = isTomlSyntaxError(e)
+          ? new vscode.Position(Math.max(0, e.line - 1), Math.max(0, e.column))
+          : new vscode.Position(0, 0);
+        // The last line of the message is the reason, the lines before quote the invalid text.
+        const errorMsg = (e instanceof Error ? e.message : String(e)).trim().split('\n').pop();
+        diagnostics.push(new vscode.Diagnostic(new vscode.Range(position, position), `Invalid TOML: ${errorMsg}`));
+      }
+    } else {
+      const doc = YAML.parseDocument(text);
+      const error = doc.errors[0];
+      if (error !== undefined) {
+        const linePos = error.linePos?.[0];
+        const position = new vscode.Position(Math.max(0, (linePos?.line ?? 1) - 1), Math.max(0, (linePos?.col ?? 1) - 1));
+        diagnostics.push(new vscode.Diagnostic(new vscode.Range(position, position), `Invalid YAML: ${error.message}`));
+      } else {
+        parsed = doc.toJS() ?? {};
+      }
+    }
+
+    if (parsed !== undefined) {
+      const problems: SchemaProblem[] = [];
+      this.schema.validate(parsed, this.schema.nodesAt([]), [], problems);
+      problems.forEach(problem => {
+        const range = findKeyPathRange(document, problem.keyPath) ?? document.lineAt(0).range;
+        diagnostics.push(new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Warning));
+      });
+    }
+
+    diagnostics.forEach(diagnostic => diagnostic.source = 'mirrord');
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    const context = cursorContext(document, position);
+    if (context === undefined) {
+      return [];
+    }
+
+    const toml = configFormat(document.uri) === 'toml';
+
+    if (context.kind === 'value') {
+      return this.schema.values(this.schema.nodesAt(context.keyPath)).map(({ value, description }) => {
+        const item = new vscode.CompletionItem(String(value), vscode.CompletionItemKind.EnumMember);
+        if (toml && typeof value === 'string' && !context.quoted) {
+          item.insertText = JSON.stringify(value);
+        }
+        if (description !== undefined) {
+          item.documentation = new vscode.MarkdownString(description);
+        }
+        return item;
+      });
+    }
+
+    const inHeader = toml && /^\s*\[/.test(document.lineAt(position.line).text);
+    return [...this.schema.properties(this.schema.nodesAt(context.parentPath)).entries()].map(([key, node]) => {
+      const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+      item.documentation = this.schema.describe([node]);
+      if (!inHeader) {
+        item.insertText = toml ? `${key} = ` : `${key}: `;
+      }
+      return item;
+    });
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const found = keyPathAt(document, position);
+    if (found === undefined) {
+      return undefined;
+    }
+
+    const [keyPath, range] = found;
+    const nodes = this.schema.nodesAt(keyPath);
+    if (nodes.length === 0) {
+      return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString(`**${keyPath.join('.')}**\n\n`);
+    markdown.appendMarkdown(this.schema.describe(nodes).value);
+    return new vscode.Hover(markdown, range);
+  }
+}
@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { getMirrordAPI } from './binaryManager';
+import { MirrordConfigManager } from './config';
+import { CONFIG_FORMATS, ConfigValue, setConfigValues } from './configFile';
+import { globalContext } from './extension';
+import { NotificationBuilder } from './notification';
+import { TargetQuickPick } from './targetQuickPick';
+import Logger from './logger';
+
+/**
+ * A scenario offered by the new config wizard.
+ */
+interface Scenario extends vscode.QuickPickItem {
+  id: string;
+  /**
+   * Whether the scenario needs a target.
+   */
+  targeted: boolean;
+  /**
+   * Returns the values of the config, asking the user for more input if needed.
+   * Returns undefined if the user cancelled.
+   */
+  values: () => Promise<ConfigValue[] | undefined>;
+}
+
+/**
+ * Same as the default config created for a workspace folder, without the incoming traffic.
+ */
+const BASE_VALUES: ConfigValue[] = [
+  [['feature', 'network', 'outgoing'], true],
+  [['feature', 'fs'], 'read'],
+  [['feature', 'env'], true],
+];
+
+const SCENARIOS: Scenario[] = [
+  {
+    id: 'mirror',
+    label: 'Mirror traffic',
+    detail: 'Receive a copy of the incoming traffic of the target, without affecting it.',
+    targeted: true,
+    values: async () => [[['feature', 'network', 'incoming'], 'mirror'], ...BASE_VALUES],
+  },
+  {
+    id: 'steal',
+    label: 'Steal all traffic',
+    detail: 'Redirect all incoming traffic of the target to the local process.',
+    targeted: true,
+    values: async () => [[['feature', 'network', 'incoming'], 'steal'], ...BASE_VALUES],
+  },
+  {
+    id: 'steal-filtered',
+    label: 'Steal with HTTP header filter',
+    detail: 'Redirect only the HTTP requests with a matching header to the local process, the rest goes to the target.',
+    targeted: true,
+    values: async () => {
+      const headerFilter = await vscode.window.showInputBox({
+        title: 'New mirrord configuration: HTTP header filter',
+        prompt: 'Regex matched against the request headers, in the `name: value` format',
+        value: `x-mirrord-user: ${os.userInfo().username}`,
+        validateInput: value => value.trim().length === 0 ? 'The filter cannot be empty' : undefined,
+      });
+      if (headerFilter === undefined) {
+        return undefined;
+      }
+
+      return [
+        [['feature', 'network', 'incoming', 'mode'], 'steal'],
+        [['feature', 'network', 'incoming', 'http_filter', 'header_filter'], headerFilter.trim()],
+        ...BASE_VALUES,
+      ];
+    },
+  },
+  {
+    id: 'targetless',
+    label: 'Outgoing only (targetless)',
+    detail: 'Access the cluster (outgoing traffic, DNS) without impersonating any target.',
+    targeted: false,
+    values: async () => [[['feature', 'network', 'incoming'], 'off'], ...BASE_VALUES],
+  },
+  {
+    id: 'queue-splitting',
+    label: 'Queue splitting',
+    detail: 'Consume only the matching messages from a queue used by the target. Requires the mirrord operator.',
+    targeted: true,
+    values: async () => {
+      const queueId = await vscode.window.showInputBox({
+        title: 'New mirrord configuration: queue ID',
+        prompt: 'ID of the queue, as defined in the MirrordWorkloadQueueRegistry of the target',
+        validateInput: value => /^[\w-]+$/.test(value) ? undefined : 'The ID can contain only letters, digits, `_` and `-`',
+      });
+      if (queueId === undefined) {
+        return undefined;
+      }
+
+      const queueType = await vscode.window.showQuickPick(['SQS', 'Kafka'], { title: 'New mirrord configuration: queue type' });
+      if (queueType === undefined) {
+        return undefined;
+      }
+
+      const filter = await vscode.window.showInputBox({
+        title: 'New mirrord configuration: message filter',
+        prompt: queueType === 'SQS' ? 'Message attribute and regex for its value, e.g. `author: ^me$`' : 'Message header and regex for its value, e.g. `author: ^me$`',
+        validateInput: value => /^[^:]+:.+$/.test(value) ? undefined : 'Expected `name: regex`',
+      });
+      if (filter === undefined) {
+        return undefined;
+      }
+
+      const separator = filter.indexOf(':');
+      return [
+        [['feature', 'network', 'incoming'], 'mirror'],
+        ...BASE_VALUES,
+        [['feature', 'split_queues', queueId, 'queue_type'], queueType],
+        [['feature', 'split_queues', queueId, 'message_filter', filter.slice(0, separator).trim()], filter.slice(separator + 1).trim()],
+      ];
+    },
+  },
+];
+
+/**
+ * The target item representing no target in the config. The target is then selected when the session starts.
+ */
+const NO_TARGET_ITEM: vscode.QuickPickItem = {
+  label: 'No target',
+  detail: 'Select the target when the session starts',
+};
+
+/**
+ * Multi-step quick pick creating a new mirrord config under `.mirrord/`.
+ *
+ * Asks for the scenario, the target and the format of the config.
+ */
+export class MirrordConfigWizard {
+  static readonly newConfigCommandId = 'mirrord.newConfig';
+
+  register(): MirrordConfigWizard {
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordConfigWizard.newConfigCommandId, MirrordConfigWizard.run));
+    return this;
+  }
+
+  /**
+   * Lists the available targets with `mirrord ls`, using the active config of the workspace folder.
+   *
+   * If listing fails, only @see NO_TARGET_ITEM is returned.
+   */
+  private static async targetItems(folder: vscode.WorkspaceFolder): Promise<(vscode.QuickPickItem & { namespace?: string })[]> {
+    try {
+      const mirrordApi = await getMirrordAPI();
+      const output = await mirrordApi.listTargets(
+        MirrordConfigManager.getInstance().activeConfigOf(folder)?.fsPath,
+        {},
+        TargetQuickPick.getSupportedTargetTypes(),
+      );
+
+      const targets = output.targets
+        .filter(target => target.available)
+        .map(target => {
+          return { label: target.path, description: output.current_namespace, namespace: output.current_namespace };
+        });
+      return [NO_TARGET_ITEM, ...targets];
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.warn(`failed to list targets for the new config: ${errorMsg}`);
+      return [{ ...NO_TARGET_ITEM, description: `failed to list targets: ${errorMsg}` }];
+    }
+  }
+
+  /**
+   * Returns a name for the new config in the `.mirrord` directory, that is not taken yet.
+   */
+  private static async availableName(dir: vscode.Uri, scenario: Scenario, extension: string): Promise<string> {
+    for (let i = 0; ; i++) {
+      const candidate = i === 0 ? `mirrord.${extension}` : i === 1 ? `${scenario.id}.mirrord.${extension}` : `${scenario.id}-${i}.mirrord.${extension}`;
+      try {
+        await vscode.workspace.fs.stat(vscode.Uri.joinPath(dir, candidate));
+      } catch {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Handles the `mirrord.newConfig` command.
+   */
+  private static async run() {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const folder = folders.length > 1 ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder for the new mirrord config' }) : folders[0];
+    if (folder === undefined) {
+      if (folders.length === 0) {
+        new NotificationBuilder()
+          .withMessage("open a folder to create a mirrord config")
+          .warning();
+      }
+      return;
+    }
+
+    const scenario = await vscode.window.showQuickPick(SCENARIOS, { title: 'New mirrord configuration: scenario', placeHolder: 'What do you want to do?' });
+    if (scenario === undefined) {
+      return;
+    }
+
+    const values = await scenario.values();
+    if (values === undefined) {
+      return;
+    }
+
+    if (scenario.targeted) {
+      const target = await vscode.window.showQuickPick(MirrordConfigWizard.targetItems(folder), {
+        title: 'New mirrord configuration: target',
+        placeHolder: 'Select the target',
+        matchOnDescription: true,
+      });
+      if (target === undefined) {
+        return;
+      }
+
+      if (target.label !== NO_TARGET_ITEM.label) {
+        values.unshift([['target', 'path'], target.label]);
+        if (target.namespace !== undefined) {
+          values.splice(1, 0, [['target', 'namespace'], target.namespace]);
+        }
+      }
+    }
+
+    const format = await vscode.window.showQuickPick(CONFIG_FORMATS, {
+      title: 'New mirrord configuration: format',
+      placeHolder: 'Select the format of the config',
+    });
+    if (format === undefined) {
+      return;
+    }
+
+    const dir = vscode.Uri.joinPath(folder.uri, '.mirrord');
+    const name = await MirrordConfigWizard.availableName(dir, scenario, format.extension);
+    const path = vscode.Uri.joinPath(dir, name);
+
+    try {
+      await vscode.workspace.fs.writeFile(path, Buffer.from(setConfigValues('', format.format, values)));
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`failed to create mirrord config ${path.fsPath}: ${errorMsg}`);
+      new NotificationBuilder()
+        .withMessage(`failed to create mirrord config: ${errorMsg}`)
+        .error();
+      return;
+    }
+
+    await vscode.window.showTextDocument(path);
+
+    new NotificationBuilder()
+      .withMessage(`created mirrord config ${vscode.workspace.asRelativePath(path)}`)
+      .withGenericAction("Set as active", async () => MirrordConfigManager.getInstance().setActiveConfig(folder, path))
+      .info();
+  }
+}
@@ -0,0 +1,196 @@
+import * as vscode from "vscode";
+
+/**
+ * What mirrord needs to know about a debug type, to prepare its launch configurations.
+ *
+ * Users can add profiles for new debug types, or override the fields of the built-in ones,
+ * with the `mirrord.debugTypeProfiles` setting.
+ */
+export interface DebugTypeProfile {
+  /**
+   * Field of the launch configuration holding the executable, patched on macOS to sidestep SIP.
+   */
+  executableField: string;
+  /**
+   * Property of the launch configuration that makes the debugger stop on entry, used for the attach flow on Windows.
+   */
+  stopOnEntryProperty: string;
+  /**
+   * Processes that mirrord should not be loaded into, e.g. the debugger itself (`MIRRORD_SKIP_PROCESSES`).
+   */
+  skipProcesses: string[];
+  /**
+   * Debugger whose port mirrord should detect and ignore (`MIRRORD_DETECT_DEBUGGER_PORT`).
+   */
+  detectDebuggerPort?: string;
+  /**
+   * Port or range of ports mirrord should ignore (`MIRRORD_IGNORE_DEBUGGER_PORTS`).
+   */
+  ignoreDebuggerPorts: string;
+  /**
+   * Field of the launch configuration holding the debugger port. When set in the launch configuration,
+   * the port is ignored instead of @see ignoreDebuggerPorts.
+   */
+  debuggerPortField?: string;
+  /**
+   * Extra env added to the launch configuration.
+   */
+  env: Record<string, string>;
+}
+
+/**
+ * Used for the fields missing from the profile of the debug type, and for debug types without a profile.
+ */
+const DEFAULT_PROFILE: DebugTypeProfile = {
+  executableField: "program",
+  stopOnEntryProperty: "stopOnEntry",
+  skipProcesses: [],
+  // A fixed range of ports that VS Code uses for debugging.
+  ignoreDebuggerPorts: "45000-65535",
+  env: {},
+};
+
+const NODE_PROFILE: Partial<DebugTypeProfile> = {
+  // https://code.visualstudio.com/docs/nodejs/nodejs-debugging#_launch-configuration-attributes
+  executableField: "runtimeExecutable",
+};
+
+const PYTHON_PROFILE: Partial<DebugTypeProfile> = {
+  // Official documentation states the relevant field name is "python" (https://code.visualstudio.com/docs/python/debugging#_python),
+  // but when debugging we see the field is called "pythonPath", which is used when "python" is missing.
+  executableField: "python",
+  detectDebuggerPort: "debugpy",
+};
+
+const CORECLR_PROFILE: Partial<DebugTypeProfile> = {
+  // https://code.visualstudio.com/docs/csharp/debugger-settings#_program
+  stopOnEntryProperty: "stopAtEntry",
+  skipProcesses: ["vsdbg", "vsdbg-ui", "createdump"],
+};
+
+/**
+ * Profiles of the debug types known to the extension.
+ */
+const BUILTIN_PROFILES: Record<string, Partial<DebugTypeProfile>> = {
+  "go": {
+    skipProcesses: ["dlv", "debugserver", "compile", "go", "asm", "cgo", "link", "git", "gcc", "as", "ld", "collect2", "cc1"],
+  },
+  "python": PYTHON_PROFILE,
+  "debugpy": PYTHON_PROFILE,
+  "java": {
+    detectDebuggerPort: "javaagent",
+  },
+  "pwa-node": NODE_PROFILE,
+  "node": NODE_PROFILE,
+  "node-terminal": {
+    ...NODE_PROFILE,
+    // The command is run in a shell, see `getFieldAndExecutable`.
+    executableField: "command",
+  },
+  "cppdbg": {
+    // https://code.visualstudio.com/docs/cpp/launch-json-reference#_program
+    // gdb/lldb attach to the process directly, there is no debugger port.
+    stopOnEntryProperty: "stopAtEntry",
+    skipProcesses: ["gdb", "lldb-mi", "lldb", "lldb-server", "debugserver"],
+  },
+  "lldb": {
+    // Rust with CodeLLDB (https://github.com/vadimcn/codelldb/blob/master/MANUAL.md#launching-a-new-process).
+    skipProcesses: ["codelldb", "lldb", "lldb-server", "debugserver"],
+  },
+  "coreclr": CORECLR_PROFILE,
+  "clr": CORECLR_PROFILE,
+  "rdbg": {
+    // Ruby (https://github.com/ruby/vscode-rdbg#launch-without-configuration), `rdbg` is a Ruby script which
+    // runs the program in the same process. It listens on a UNIX socket, unless a TCP port is given.
+    executableField: "rdbgPath",
+    debuggerPortField: "debugPort",
+  },
+  "php": {
+    // PHP with Xdebug (https://github.com/xdebug/vscode-php-debug#supported-launchjson-settings).
+    // Xdebug connects to the port VS Code listens on.
+    executableField: "runtimeExecutable",
+    ignoreDebuggerPorts: "9003",
+    debuggerPortField: "port",
+  },
+};
+
+/**
+ * Returns whether there is a built-in or user profile for the debug type.
+ */
+export function hasDebugTypeProfile(debugType: string): boolean {
+  const userProfiles = vscode.workspace.getConfiguration("mirrord").get<Record<string, Partial<DebugTypeProfile>>>("debugTypeProfiles", {});
+  return debugType in BUILTIN_PROFILES || debugType in userProfiles;
+}
+
+/**
+ * Adds the settings of the profile to the env of the launch configuration.
+ *
+ * The processes to skip are added to the ones already in `MIRRORD_SKIP_PROCESSES`,
+ * and the extra env of the profile does not override the env of the launch configuration.
+ */
+export function applyDebugTypeProfile(config: vscode.DebugConfiguration, profile: DebugTypeProfile) {
+  const env: Record<string, string> = config.env;
+
+  const skipProcesses = [...(env["MIRRORD_SKIP_PROCESSES"]?.split(";") ?? []), ...profile.skipProcesses]
+    .map(name => name.trim())
+    .filter((name, idx, all) => name.length > 0 && all.indexOf(name) === idx);
+  if (skipProcesses.length > 0) {
+    env["MIRRORD_SKIP_PROCESSES"] = skipProcesses.join(";");
+  }
+  if (profile.detectDebuggerPort !== undefined) {
+    env["MIRRORD_DETECT_DEBUGGER_PORT"] = profile.detectDebuggerPort;
+  }
+  for (const [key, value] of Object.entries(profile.env)) {
+    env[key] ??= value;
+  }
+
+  // TODO: find a way to use MIRRORD_DETECT_DEBUGGER_PORT for other debuggers.
+  const debuggerPort = profile.debuggerPortField !== undefined ? config[profile.debuggerPortField] : undefined;
+  env["MIRRORD_IGNORE_DEBUGGER_PORTS"] = /^\d+$/.test(String(debuggerPort))
+    ? String(debuggerPort)
+    : profile.ignoreDebuggerPorts;
+}
+
+/**
+ * Returns the profile of the debug type. Fields set in the `mirrord.debugTypeProfiles` setting
+ * override the built-in profile, the remaining fields come from @see DEFAULT_PROFILE.
+ */
+export function getDebugTypeProfile(debugType: string): DebugTypeProfile {
+  const userProfiles = vscode.workspace.getConfiguration("mirrord").get<Record<string, Partial<DebugTypeProfile>>>("debugTypeProfiles", {});
+  return {
+    ...DEFAULT_PROFILE,
+    ...BUILTIN_PROFILES[debugType],
+    ...userProfiles[debugType],
+  };
+}
+
+/**
+ * C/C++ (cppdbg) launch configurations take the env as an `environment` array of `{ name, value }` objects.
+ * Moves it to `env`, so that the env is handled the same way for all debug types.
+ */
+export function environmentToEnv(config: vscode.DebugConfiguration) {
+  if (config.type !== "cppdbg" || !Array.isArray(config.environment)) {
+    return;
+  }
+
+  const environment: { name: string, value: string }[] = config.environment;
+  config.env = Object.assign(
+    Object.fromEntries(environment.map(({ name, value }) => [name, value])),
+    config.env,
+  );
+  delete config.environment;
+}
+
+/**
+ * Reverts @see environmentToEnv, moving the `env` of C/C++ (cppdbg) launch configurations back to `environment`.
+ */
+export function envToEnvironment(config: vscode.DebugConfiguration) {
+  if (config.type !== "cppdbg" || config.env === undefined) {
+    return;
+  }
+
+  config.environment = Object.entries(config.env).map(([name, value]) => {
+    return { name, value };
+  });
+  delete config.env;
+}
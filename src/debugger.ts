@@ -1,15 +1,20 @@
 import * as vscode from "vscode";
 import { globalContext } from "./extension";
 import { isTargetSet, MirrordConfigManager } from "./config";
-import { MirrordAPI, mirrordFailure, MirrordExecution } from "./api";
+import { MirrordAPI, mirrordFailure, MirrordExecution, selectionTarget } from "./api";
 import { updateTelemetries } from "./versionCheck";
 import { getMirrordBinary } from "./binaryManager";
 import { platform } from "node:os";
 import { NotificationBuilder } from "./notification";
 import { setOperatorUsed } from "./mirrordForTeams";
 import fs from "fs";
+import { randomUUID } from "crypto";
 import { TargetQuickPick, UserSelection } from "./targetQuickPick";
+import { listKubeContexts } from "./kubeconfig";
 import Logger from "./logger";
+import { applyDebugTypeProfile, envToEnvironment, environmentToEnv, getDebugTypeProfile, hasDebugTypeProfile } from "./debugTypes";
+import { launchOptions } from "./launchConfigs";
+import { LaunchBatch } from "./launchBatch";
 
 const DYLD_ENV_VAR_NAME = "DYLD_INSERT_LIBRARIES";
 
@@ -24,69 +29,79 @@ export interface PendingAttach {
 }
 
 /**
- * Queue of pending attaches. `main()` pushes here on Windows after setting up
- * stopOnEntry. The tracker factory in `extension.ts` shifts from it when
- * creating a tracker for a mirrord-injected session. Config resolution and
- * tracker creation happen sequentially per session, so ordering is preserved.
+ * Property of the resolved debug configuration that identifies its pending attach.
  */
-export const pendingAttaches: PendingAttach[] = [];
+const ATTACH_ID_PROPERTY = "__mirrordAttachId";
 
 /**
- * Returns the name of the "stop on entry" config property for the given debug type.
- *
- * Most debuggers use `stopOnEntry`, but C# (coreclr/clr) uses `stopAtEntry`.
+ * Pending attaches, keyed by @see ATTACH_ID_PROPERTY of the debug configuration. `main()` adds here on
+ * Windows after setting up stopOnEntry. The tracker factory in `extension.ts` takes from it for the
+ * session started with the configuration, so that launches resolved in parallel (e.g. from a compound)
+ * don't take each other's attach.
  */
-function getStopOnEntryProperty(debugType: string): string {
-  let prop: string;
-  switch (debugType) {
-    case "coreclr":
-    case "clr":
-      prop = "stopAtEntry";
-      break;
-    default:
-      prop = "stopOnEntry";
-      break;
+const pendingAttaches = new Map<string, PendingAttach>();
+
+/**
+ * Returns the id of the pending attach of the session, or of its parent session. Some debuggers
+ * (e.g. pwa-node) start the process in a child session, with its own debug configuration.
+ */
+function attachId(session: vscode.DebugSession): string | undefined {
+  for (let current: vscode.DebugSession | undefined = session; current !== undefined; current = current.parentSession) {
+    const id = current.configuration[ATTACH_ID_PROPERTY];
+    if (typeof id === "string" && pendingAttaches.has(id)) {
+      return id;
+    }
   }
-  return prop;
+  return undefined;
+}
+
+/**
+ * Returns whether there is a pending attach for the session.
+ */
+export function hasPendingAttach(session: vscode.DebugSession): boolean {
+  return attachId(session) !== undefined;
+}
+
+/**
+ * Removes and returns the pending attach of the session, if any.
+ */
+export function takePendingAttach(session: vscode.DebugSession): PendingAttach | undefined {
+  const id = attachId(session);
+  if (id === undefined) {
+    return undefined;
+  }
+  const pending = pendingAttaches.get(id);
+  pendingAttaches.delete(id);
+  return pending;
 }
 
 /// Get the name of the field that holds the exectuable in a debug configuration of the given type,
 /// and the executable. Returning the field name for replacing the value with the patched path later.
 /// Also returning the executable because in some configuration types there is some extra logic to
 /// be done for retrieving the executable out of its field (see the `node-terminal` case).
+/// The field comes from the profile of the debug type, see `getDebugTypeProfile`.
 function getFieldAndExecutable(
   config: vscode.DebugConfiguration,
 ): [keyof vscode.DebugConfiguration, string | null] {
-  switch (config.type) {
-    case "pwa-node":
-    case "node": {
-      // https://code.visualstudio.com/docs/nodejs/nodejs-debugging#_launch-configuration-attributes
-      return ["runtimeExecutable", config["runtimeExecutable"]];
-    }
-    case "node-terminal": {
-      // Command could contain multiple commands like "command1 arg1; command2 arg2", so we execute that command
-      // in a shell, to which we inject the layer. In order to inject the layer to the shell, we have to patch it
-      // for SIP, so we pass the shell to the mirrod CLI.
-      return ["command", vscode.env.shell];
-    }
-    case "debugpy":
-    case "python": {
-      if ("python" in config) {
-        return ["python", config["python"]];
-      }
-      // Official documentation states the relevant field name is "python" (https://code.visualstudio.com/docs/python/debugging#_python),
-      // but when debugging we see the field is called "pythonPath".
-      return ["pythonPath", config["pythonPath"]];
-    }
-    default: {
-      if ("python" in config && fs.existsSync(config["python"])) {
-        // We don't know that config type yet, but the config has the field "python" that contains a path that exists,
-        // so we assume that's the path of the python binary and we patch that.
-        return ["python", config["python"]];
-      }
-      return ["program", config["program"]];
+  if (!hasDebugTypeProfile(config.type)) {
+    if ("python" in config && fs.existsSync(config["python"])) {
+      // We don't know that config type yet, but the config has the field "python" that contains a path that exists,
+      // so we assume that's the path of the python binary and we patch that.
+      return ["python", config["python"]];
     }
+    return ["program", config["program"]];
   }
+
+  const field = getDebugTypeProfile(config.type).executableField;
+  if (config.type === "node-terminal") {
+    // Command could contain multiple commands like "command1 arg1; command2 arg2", so we execute that command
+    // in a shell, to which we inject the layer. In order to inject the layer to the shell, we have to patch it
+    // for SIP, so we pass the shell to the mirrod CLI.
+    return [field, vscode.env.shell];
+  } else if (field === "python" && !("python" in config)) {
+    return ["pythonPath", config["pythonPath"]];
+  }
+  return [field, config[field] ?? null];
 }
 
 /// Edit the launch configuration in order to sidestep SIP on macOS, and allow the layer to be
@@ -127,17 +142,19 @@ async function main(
   config: vscode.DebugConfiguration,
   _token: vscode.CancellationToken,
 ): Promise<vscode.DebugConfiguration | null | undefined> {
+  const options = launchOptions(config);
   if (
-    (!globalContext.workspaceState.get("enabled") &&
-      !(config.env?.["MIRRORD_ACTIVE"] === "1")) ||
-    config.env?.["MIRRORD_ACTIVE"] === "0"
+    (!globalContext.workspaceState.get("enabled") && options.enabled !== true) ||
+    options.enabled === false
   ) {
+    LaunchBatch.pass(folder, config);
     return config;
   }
 
   // Sometimes VSCode launches then attaches, so having a warning/error here is confusing
   // We used to return null in that case but that failed the attach.
   if (config.request === "attach") {
+    LaunchBatch.pass(folder, config);
     return config;
   }
 
@@ -146,6 +163,10 @@ async function main(
     return config;
   }
 
+  // Launches started together, e.g. from a compound, share the target selection and fail together.
+  // Joined before the first `await`, so that the launches of the compound join the same batch.
+  const joining = LaunchBatch.join(folder, config);
+
   updateTelemetries();
 
   //TODO: add progress bar maybe ?
@@ -163,51 +184,80 @@ async function main(
   config.env ||= {};
   let quickPickSelection: UserSelection | undefined = undefined;
 
+  const batch = await joining;
+
   const configPath =
     await MirrordConfigManager.getInstance().resolveMirrordConfig(
       folder,
       config,
     );
-  const verifiedConfig = await mirrordApi.verifyConfig(configPath, config.env);
+  if (configPath === undefined) {
+    return null;
+  }
+
+  // The namespace from the `mirrord` property, when there is no target selection to carry it.
+  const namespaceEnv: Record<string, string> =
+    options.namespace !== undefined && options.target === undefined
+      ? { MIRRORD_TARGET_NAMESPACE: options.namespace }
+      : {};
+  const verifiedConfig = await mirrordApi.verifyConfig(configPath, { ...config.env, ...namespaceEnv });
 
   // If target wasn't specified in the config file (or there's no config file), let user choose pod from dropdown
-  if (!configPath || (verifiedConfig && !isTargetSet(verifiedConfig))) {
+  const targetMissing = !configPath || (verifiedConfig && !isTargetSet(verifiedConfig));
+
+  if (options.target !== undefined) {
+    // Target from the `mirrord` property of the launch configuration.
+    quickPickSelection = { path: options.target, namespace: options.namespace };
+  } else if (targetMissing && !options.skipTargetPicker) {
     const supportedTypes = TargetQuickPick.getSupportedTargetTypes();
-    const getTargets = async (namespace?: string) => {
+    const getTargets = async (namespace?: string, context?: string) => {
       return mirrordApi.listTargets(
         configPath?.fsPath,
         config.env,
         supportedTypes,
-        namespace,
+        namespace ?? options.namespace,
+        context,
       );
     };
 
+    const showTargetPicker = async (title?: string) => {
+      const kubeContexts = await listKubeContexts(config.env);
+      const quickPick = await TargetQuickPick.new(getTargets, {
+        launchConfig: { folder, name: config.name },
+        kubeContexts,
+        configPath: configPath?.fsPath,
+        fetcherInputs: { namespace: options.namespace, env: config.env },
+        // A target shared by the batch is not saved to the config of one of its launches.
+        saveTarget: (batch === undefined && (configPath || folder)) ? async (target) => {
+          const savedTo = await MirrordConfigManager.saveTarget(configPath, folder, target);
+          if (savedTo) {
+            new NotificationBuilder()
+              .withMessage(`Saved target ${selectionTarget(target)} to ${vscode.workspace.asRelativePath(savedTo)}`)
+              .withOpenFileAction(savedTo)
+              .info();
+          }
+        } : undefined,
+        title,
+      });
+      return quickPick.showAndGet();
+    };
+
     try {
-      const quickPick = await TargetQuickPick.new(getTargets);
-      quickPickSelection = await quickPick.showAndGet();
+      quickPickSelection = batch !== undefined
+        ? await batch.selectTarget(showTargetPicker)
+        : await showTargetPicker();
+      if (quickPickSelection === undefined) {
+        // User dismissed the target selection and chose not to run, returning `undefined` cancels the launch.
+        return undefined;
+      }
     } catch (err) {
       mirrordFailure(`mirrord failed to list targets: ${err}`);
       return null;
     }
   }
 
-  if (config.type === "go") {
-    config.env["MIRRORD_SKIP_PROCESSES"] =
-      "dlv;debugserver;compile;go;asm;cgo;link;git;gcc;as;ld;collect2;cc1";
-  } else if (config.type === "python" || config.type === "debugpy") {
-    config.env["MIRRORD_DETECT_DEBUGGER_PORT"] = "debugpy";
-  } else if (config.type === "java") {
-    config.env["MIRRORD_DETECT_DEBUGGER_PORT"] = "javaagent";
-  } else if (config.type in ["pwa-node", "node", "node-terminal"]) {
-    // if any of the --inspect flags are used with node, the port for inspection should be ignored
-    // see: https://nodejs.org/en/learn/getting-started/debugging#enable-inspector
-    config.env["MIRRORD_DETECT_DEBUGGER_PORT"] = "nodeinspector";
-    config.env["MIRRORD_ENV_LOAD_FROM_PROCESS"] = "true";
-  }
-
-  // Add a fixed range of ports that VS Code uses for debugging.
-  // TODO: find a way to use MIRRORD_DETECT_DEBUGGER_PORT for other debuggers.
-  config.env["MIRRORD_IGNORE_DEBUGGER_PORTS"] = "45000-65535";
+  const profile = getDebugTypeProfile(config.type);
+  applyDebugTypeProfile(config, profile);
 
   const isMac = platform() === "darwin";
   const isWindows = platform() === "win32";
@@ -218,18 +268,24 @@ async function main(
 
   let executionInfo;
   try {
-    executionInfo = await mirrordApi.binaryExecute(
+    const prepare = () => mirrordApi.binaryExecute(
       quickPickSelection,
       configPath?.fsPath || null,
       executable,
-      config.env,
+      quickPickSelection === undefined ? { ...config.env, ...namespaceEnv } : config.env,
       folder?.uri.fsPath,
     );
+    executionInfo = batch !== undefined ? await batch.prepare(prepare) : await prepare();
   } catch (err) {
     mirrordFailure(`mirrord preparation failed: ${err}`);
     return null;
   }
 
+  if (executionInfo === undefined) {
+    // Another launch in the batch failed, and was already reported.
+    return null;
+  }
+
   if (executionInfo.usesOperator === true) {
     setOperatorUsed();
   }
@@ -253,18 +309,19 @@ async function main(
   // On Windows, set up the attach flow: force stop-on-entry so we can inject
   // the layer DLL before any user code runs.
   if (isWindows) {
-    const stopProp = getStopOnEntryProperty(config.type);
+    const stopProp = profile.stopOnEntryProperty;
     const userHadStopOnEntry = !!config[stopProp];
 
     config[stopProp] = true;
 
-    const pendingEntry: PendingAttach = {
+    const id = randomUUID();
+    config[ATTACH_ID_PROPERTY] = id;
+    pendingAttaches.set(id, {
       cliPath,
       configEnv: { ...config.env },
       stopOnEntryProperty: stopProp,
       userHadStopOnEntry,
-    };
-    pendingAttaches.push(pendingEntry);
+    });
   }
 
   return config;
@@ -281,13 +338,22 @@ export class ConfigurationProvider
     _token: vscode.CancellationToken,
   ): Promise<vscode.DebugConfiguration | null | undefined> {
     try {
-      return await main(folder, config, _token);
+      environmentToEnv(config);
+      const resolved = await main(folder, config, _token);
+      if (resolved) {
+        envToEnvironment(resolved);
+        // Debug adapters don't know the `mirrord` property.
+        delete resolved.mirrord;
+      }
+      return resolved;
     } catch (e) {
       const errorMsg = e instanceof Error ? e.message : String(e);
       Logger.error(`debug config provider error: ${errorMsg}`);
       new NotificationBuilder()
         .withMessage(`mirrord extension error: ${e}`)
         .error();
+    } finally {
+      LaunchBatch.leave(config);
     }
   }
 }
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MirrordAPI } from './api';
+import { getMirrordAPI } from './binaryManager';
+import { ConfigSource, EnvVars, MirrordConfigManager } from './config';
+import { globalContext } from './extension';
+import { LaunchConfigEntry, launchOptions, selectLaunchConfig } from './launchConfigs';
+import { NotificationBuilder } from './notification';
+import Logger from './logger';
+
+/**
+ * Scheme of the read-only documents showing the effective mirrord config.
+ */
+const EFFECTIVE_CONFIG_SCHEME = 'mirrord-effective-config';
+
+/**
+ * Describes where the config comes from, for the header of the document.
+ */
+function describeSource(source: ConfigSource): string {
+  switch (source.kind) {
+    case 'active':
+      return `active config ${vscode.workspace.asRelativePath(source.path)}`;
+    case 'env':
+      return `launch configuration ${vscode.workspace.asRelativePath(source.path)}`;
+    case 'missing':
+      return `launch configuration ${source.rawPath}, which does not exist`;
+    case 'default':
+      return `default config from ".mirrord" folder ${vscode.workspace.asRelativePath(source.path)}`;
+    case 'none':
+      return 'no config file, using defaults';
+    case 'noFolder':
+      return 'no folder open, using defaults';
+  }
+}
+
+/**
+ * Shows the mirrord config resolved for a launch configuration, as verified by `mirrord verify-config`,
+ * in a read-only virtual document.
+ *
+ * The config is resolved the same way as when the launch configuration is started
+ * (@see MirrordConfigManager.resolveConfigSource), including `MIRRORD_*` env overrides from `launch.json`.
+ */
+export class MirrordEffectiveConfig implements vscode.TextDocumentContentProvider {
+  static readonly showCommandId = 'mirrord.showEffectiveConfig';
+
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  /**
+   * Contents of the documents, keyed by the document URI.
+   */
+  private readonly contents = new Map<string, string>();
+
+  register(): MirrordEffectiveConfig {
+    globalContext.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(EFFECTIVE_CONFIG_SCHEME, this));
+    globalContext.subscriptions.push(this.changeEmitter);
+    globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordEffectiveConfig.showCommandId, this.show.bind(this)));
+    return this;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '// Run "mirrord: Show Effective Configuration" to resolve the configuration again.\n';
+  }
+
+  /**
+   * Handles the `mirrord.showEffectiveConfig` command.
+   */
+  private async show() {
+    const launch = await selectLaunchConfig("Select launch configuration to show the effective mirrord configuration for");
+    if (launch === undefined) {
+      return;
+    }
+
+    const content = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "mirrord: resolving configuration" },
+      () => MirrordEffectiveConfig.resolve(launch),
+    );
+    if (content === undefined) {
+      return;
+    }
+
+    const uri = vscode.Uri.from({ scheme: EFFECTIVE_CONFIG_SCHEME, path: `/${launch.folder.name}/${launch.config.name}.jsonc` });
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc, { preview: false });
+  }
+
+  /**
+   * Resolves and verifies the config of the launch configuration.
+   *
+   * Without a config file, an empty one is verified, so that the defaults and env overrides are still shown.
+   *
+   * @returns content of the document, or undefined if the mirrord binary is missing
+   */
+  private static async resolve(launch: LaunchConfigEntry): Promise<string | undefined> {
+    let mirrordApi: MirrordAPI;
+    try {
+      mirrordApi = await getMirrordAPI();
+    } catch (e) {
+      new NotificationBuilder()
+        .withMessage(e instanceof Error ? e.message : String(e))
+        .error();
+      return undefined;
+    }
+
+    // The target from the `mirrord` property is passed to mirrord like the env overrides.
+    const options = launchOptions(launch.config);
+    const configEnv: EnvVars = { ...launch.config.env };
+    if (options.target !== undefined) {
+      configEnv['MIRRORD_IMPERSONATED_TARGET'] = options.target;
+    }
+    if (options.namespace !== undefined) {
+      configEnv['MIRRORD_TARGET_NAMESPACE'] = options.namespace;
+    }
+    const source = await MirrordConfigManager.getInstance().resolveConfigSource(launch.folder, launch.config);
+
+    const header = [
+      `// Effective mirrord configuration for launch configuration "${launch.config.name}" (${launch.folder.name})`,
+      `// Source: ${describeSource(source)}`,
+    ];
+    const overrides = Object.entries(configEnv).filter(([key]) => key.startsWith('MIRRORD_'));
+    if (overrides.length > 0) {
+      header.push('// Env overrides from launch.json and its "mirrord" property:');
+      overrides.forEach(([key, value]) => header.push(`//   ${key}=${value}`));
+    }
+
+    let tmpDir: string | undefined;
+    try {
+      let configPath = 'path' in source ? source.path : undefined;
+      if (configPath === undefined) {
+        tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mirrord-effective-'));
+        const tmpPath = path.join(tmpDir, 'mirrord.json');
+        await fs.promises.writeFile(tmpPath, '{}');
+        configPath = vscode.Uri.file(tmpPath);
+      }
+
+      const verified = await mirrordApi.verifyConfig(configPath, configEnv, false);
+      if (verified?.type === 'Success') {
+        verified.warnings.forEach(warning => header.push(`// Warning: ${warning}`));
+        return `${header.join('\n')}\n${JSON.stringify(verified.config, null, 4)}\n`;
+      } else {
+        verified?.errors.forEach(error => header.push(`// Error: ${error}`));
+        return `${header.join('\n')}\n`;
+      }
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`failed to resolve mirrord config for ${launch.config.name}: ${errorMsg}`);
+      header.push(`// Error: ${errorMsg}`);
+      return `${header.join('\n')}\n`;
+    } finally {
+      if (tmpDir !== undefined) {
+        const dir = tmpDir;
+        fs.promises.rm(dir, { recursive: true, force: true })
+          .catch(e => Logger.warn(`failed to remove ${dir}: ${e instanceof Error ? e.message : String(e)}`));
+      }
+    }
+  }
+}
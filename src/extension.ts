@@ -1,9 +1,18 @@
 import * as vscode from 'vscode';
 import { DebugProtocol } from '@vscode/debugprotocol';
-import { ConfigurationProvider, PendingAttach, pendingAttaches } from './debugger';
+import { ConfigurationProvider, hasPendingAttach, PendingAttach, takePendingAttach } from './debugger';
 import { MirrordStatus } from './status';
 import { getMirrordBinary } from './binaryManager';
 import { MirrordAPI } from './api';
+import { MirrordTargetsView } from './targetsTree';
+import { MirrordConfigDiagnostics } from './configDiagnostics';
+import { MirrordConfigSchemaSupport } from './configSchema';
+import { MirrordConfigEditor } from './configEditor';
+import { MirrordConfigWizard } from './configWizard';
+import { MirrordEffectiveConfig } from './effectiveConfig';
+import { MirrordConfigCodeLens } from './configCodeLens';
+import { MirrordConfigConverter } from './configConverter';
+import { MirrordTaskProvider } from './mirrordTask';
 import Logger from './logger';
 
 export let globalContext: vscode.ExtensionContext;
@@ -25,11 +34,11 @@ export async function activate(context: vscode.ExtensionContext) {
 		Logger.info("Registering DAP tracker factory for Windows attach flow");
 		vscode.debug.registerDebugAdapterTrackerFactory('*', {
 			createDebugAdapterTracker(session: vscode.DebugSession) {
-				if (pendingAttaches.length === 0) {
+				if (!hasPendingAttach(session)) {
 					return undefined;
 				}
 
-				Logger.debug(`Creating DAP tracker for session "${session.name}" (type=${session.type}), ${pendingAttaches.length} pending attach(es)`);
+				Logger.debug(`Creating DAP tracker for session "${session.name}" (type=${session.type}) with a pending attach`);
 
 				// These are set when we consume a pending attach — either from
 				// a DAP 'process' event (which carries systemProcessId) or from
@@ -42,10 +51,13 @@ export async function activate(context: vscode.ExtensionContext) {
 				 * Consume a pending attach and start DLL injection for the given PID.
 				 */
 				function startAttach(pid: number): void {
-					if (pending || pendingAttaches.length === 0) {
+					if (pending) {
+						return;
+					}
+					pending = takePendingAttach(session) ?? null;
+					if (!pending) {
 						return;
 					}
-					pending = pendingAttaches.shift()!;
 					Logger.info(`mirrord: attaching to process ${pid}`);
 					attachPromise = (async () => {
 						try {
@@ -80,7 +92,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
 						// DAP 'process' event carries `systemProcessId`.
 						// This fires once when the debug adapter spawns the target process.
-						// We shift from pendingAttaches here (not in createDebugAdapterTracker)
+						// We take the pending attach here (not in createDebugAdapterTracker)
 						// because pwa-node spawns a parent session first, then a child session
 						// for the actual process — and only the child gets the 'process' event.
 						if (event.event === 'process') {
@@ -97,8 +109,8 @@ export async function activate(context: vscode.ExtensionContext) {
 								return;
 							}
 
-							if (pendingAttaches.length === 0) {
-								Logger.debug(`Process event for "${session.name}" (pid=${pid}) but no pending attaches in queue`);
+							if (!hasPendingAttach(session)) {
+								Logger.debug(`Process event for "${session.name}" (pid=${pid}) but no pending attach for the session`);
 								return;
 							}
 
@@ -126,7 +138,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
 							// If no 'process' event was received, try to consume a pending
 							// attach now, extracting the PID from the session name.
-							if (!pending && pendingAttaches.length > 0) {
+							if (!pending && hasPendingAttach(session)) {
 								const pidMatch = session.name.match(/\[(\d+)\]/);
 								if (pidMatch) {
 									const pid = parseInt(pidMatch[1]!, 10);
@@ -186,4 +198,15 @@ export async function activate(context: vscode.ExtensionContext) {
 	new MirrordStatus(vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0))
 		.register()
 		.draw();
+
+	new MirrordTargetsView().register();
+
+	new MirrordConfigDiagnostics().register();
+	new MirrordConfigSchemaSupport().register();
+	new MirrordConfigEditor().register();
+	new MirrordConfigWizard().register();
+	new MirrordEffectiveConfig().register();
+	new MirrordConfigCodeLens().register();
+	new MirrordConfigConverter().register();
+	new MirrordTaskProvider().register();
 }
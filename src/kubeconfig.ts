@@ -0,0 +1,72 @@
+import * as fs from 'node:fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { EnvVars } from './config';
+import Logger from './logger';
+
+/**
+ * Contexts found in the active kubeconfig.
+ */
+export interface KubeContexts {
+  /**
+   * Names of all contexts, in the order they appear in the kubeconfig files.
+   */
+  contexts: string[];
+  /**
+   * Value of `current-context`, if set.
+   */
+  current?: string;
+}
+
+/**
+ * Returns paths of the active kubeconfig files.
+ *
+ * Respects the `KUBECONFIG` env var (from the launch configuration first, then from the process),
+ * and falls back to `~/.kube/config`, same as `kubectl`.
+ */
+function kubeconfigPaths(configEnv: EnvVars): string[] {
+  const kubeconfig = configEnv["KUBECONFIG"] ?? process.env["KUBECONFIG"];
+  if (kubeconfig) {
+    return kubeconfig.split(path.delimiter).filter(p => p.length > 0);
+  }
+
+  return [path.join(os.homedir(), '.kube', 'config')];
+}
+
+/**
+ * Reads the contexts from the active kubeconfig.
+ *
+ * Files that cannot be read or parsed are skipped. When multiple files are used, the first
+ * `current-context` wins, same as in `kubectl`.
+ */
+export async function listKubeContexts(configEnv: EnvVars): Promise<KubeContexts> {
+  const result: KubeContexts = { contexts: [] };
+
+  for (const kubeconfigPath of kubeconfigPaths(configEnv)) {
+    let parsed;
+    try {
+      const content = await fs.promises.readFile(kubeconfigPath, 'utf8');
+      parsed = YAML.parse(content);
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.debug(`failed to read kubeconfig ${kubeconfigPath}: ${errorMsg}`);
+      continue;
+    }
+
+    const contexts = Array.isArray(parsed?.["contexts"]) ? parsed["contexts"] : [];
+    for (const context of contexts) {
+      const name = context?.["name"];
+      if (typeof name === 'string' && !result.contexts.includes(name)) {
+        result.contexts.push(name);
+      }
+    }
+
+    const current = parsed?.["current-context"];
+    if (result.current === undefined && typeof current === 'string' && current.length > 0) {
+      result.current = current;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,200 @@
+import * as vscode from "vscode";
+import { UserSelection } from "./targetQuickPick";
+
+/**
+ * How long a batch accepts launches after the first one, in milliseconds, if not all launches of its compound
+ * arrive, e.g. when one of them fails to resolve before reaching mirrord.
+ */
+const BATCH_WINDOW_MS = 1000;
+
+/**
+ * Launch configuration in the `configurations` of a compound, see
+ * https://code.visualstudio.com/docs/editor/debugging#_compound-launch-configurations.
+ */
+type CompoundMember = string | { name: string, folder?: string };
+
+/**
+ * Returns the names of the launch configurations of each compound the launch configuration is part of,
+ * from the workspace folder and from the workspace.
+ */
+function compoundsOf(folder: vscode.WorkspaceFolder | undefined, name: string): Set<string>[] {
+  const compounds = [
+    ...vscode.workspace.getConfiguration("launch", folder).get<{ configurations?: CompoundMember[] }[]>("compounds") ?? [],
+    ...vscode.workspace.getConfiguration("launch").get<{ configurations?: CompoundMember[] }[]>("compounds") ?? [],
+  ];
+
+  return compounds
+    .map(compound => new Set((compound.configurations ?? []).map(member => typeof member === "string" ? member : member.name)))
+    .filter(names => names.has(name));
+}
+
+/**
+ * A launch prepared as part of a @see LaunchBatch.
+ */
+class LaunchBatchMember {
+  /**
+   * Whether the preparation of this launch succeeded, settled once.
+   */
+  readonly result: Promise<boolean>;
+  private settle!: (success: boolean) => void;
+
+  constructor(readonly batch: LaunchBatch, readonly name: string) {
+    this.result = new Promise(resolve => this.settle = resolve);
+  }
+
+  /**
+   * Lets the user select the target once for all launches in the batch that need one.
+   * @param show shows the target quick pick with the given title
+   */
+  async selectTarget(show: (title: string) => Promise<UserSelection | undefined>): Promise<UserSelection | undefined> {
+    return this.batch.selectTarget(show);
+  }
+
+  /**
+   * Runs the preparation of this launch, then waits for the preparations of the other launches in the batch.
+   * @returns result of the preparation, or undefined if another launch in the batch failed
+   */
+  async prepare<T>(preparation: () => Promise<T>): Promise<T | undefined> {
+    let result: T;
+    try {
+      result = await preparation();
+    } catch (e) {
+      this.finish(false);
+      throw e;
+    }
+
+    this.finish(true);
+    const results = await Promise.all(this.batch.members.map(member => member.result));
+    return results.every(success => success) ? result : undefined;
+  }
+
+  /**
+   * Settles @see result, if not settled yet.
+   */
+  finish(success: boolean) {
+    this.settle(success);
+  }
+}
+
+/**
+ * Launches prepared together, e.g. the launch configurations of a compound.
+ *
+ * A batch is opened by a launch configuration that is part of a compound, and accepts the other launches of
+ * the compound until all of them arrived, or for at most @see BATCH_WINDOW_MS. The target is selected once
+ * for all of them, the preparations run in parallel, and the launches fail together if any of them fails.
+ */
+export class LaunchBatch {
+  /**
+   * Batch accepting launches, if any.
+   */
+  private static open?: LaunchBatch;
+  /**
+   * Members of the batches that are being prepared, keyed by their debug configuration.
+   */
+  private static readonly members = new Map<vscode.DebugConfiguration, LaunchBatchMember>();
+
+  readonly members: LaunchBatchMember[] = [];
+  /**
+   * Names of the launches that arrived, prepared by mirrord or not.
+   */
+  private readonly arrived = new Set<string>();
+  private readonly closed: Promise<void>;
+  private close!: () => void;
+  private selection?: Promise<UserSelection | undefined>;
+
+  /**
+   * @param compounds names of the launch configurations of the compounds that may have started the batch
+   */
+  private constructor(private compounds: Set<string>[]) {
+    this.closed = new Promise(resolve => {
+      const timeout = setTimeout(() => this.close(), BATCH_WINDOW_MS);
+      this.close = () => {
+        clearTimeout(timeout);
+        if (LaunchBatch.open === this) {
+          LaunchBatch.open = undefined;
+        }
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Adds the launch to the open batch, if it's part of the same compound. Otherwise, opens a new batch if
+   * the launch configuration is part of a compound. The batch closes once all launches of the compound arrived.
+   *
+   * @returns the batch, or undefined if the launch is not part of a compound
+   */
+  private static arrive(folder: vscode.WorkspaceFolder | undefined, name: string): LaunchBatch | undefined {
+    let batch = LaunchBatch.open;
+    if (batch === undefined || batch.arrived.has(name) || !batch.compounds.some(names => names.has(name))) {
+      const compounds = compoundsOf(folder, name);
+      if (compounds.length === 0) {
+        return undefined;
+      }
+      batch = new LaunchBatch(compounds);
+      LaunchBatch.open = batch;
+    }
+
+    batch.add(name);
+    return batch;
+  }
+
+  /**
+   * Records the arrival of the launch, and closes the batch if all launches of its compound arrived.
+   */
+  private add(name: string) {
+    this.arrived.add(name);
+    this.compounds = this.compounds.filter(names => names.has(name));
+    if (this.compounds.some(names => [...names].every(n => this.arrived.has(n)))) {
+      this.close();
+    }
+  }
+
+  /**
+   * Adds the launch to a batch, see @see arrive. Must be called before the first `await` of the launch,
+   * so that the launches of a compound arrive together. Waits until the batch stops accepting launches.
+   *
+   * The launch must be removed from the batch with @see leave once it's prepared.
+   *
+   * @returns the member of the batch, or undefined if the launch is prepared on its own
+   */
+  static async join(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<LaunchBatchMember | undefined> {
+    const batch = LaunchBatch.arrive(folder, config.name);
+    if (batch === undefined) {
+      return undefined;
+    }
+
+    const member = new LaunchBatchMember(batch, config.name);
+    batch.members.push(member);
+    LaunchBatch.members.set(config, member);
+    await batch.closed;
+
+    return batch.members.length > 1 ? member : undefined;
+  }
+
+  /**
+   * Notes that a launch of the compound is not prepared by mirrord, so that the batch does not wait for it.
+   */
+  static pass(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration) {
+    LaunchBatch.arrive(folder, config.name);
+  }
+
+  /**
+   * Removes the launch from its batch. If the launch did not finish its preparation, the batch fails.
+   */
+  static leave(config: vscode.DebugConfiguration) {
+    LaunchBatch.members.get(config)?.finish(false);
+    LaunchBatch.members.delete(config);
+  }
+
+  /**
+   * @see LaunchBatchMember.selectTarget
+   */
+  selectTarget(show: (title: string) => Promise<UserSelection | undefined>): Promise<UserSelection | undefined> {
+    if (this.selection === undefined) {
+      const names = this.members.map(member => `"${member.name}"`).join(", ");
+      this.selection = show(`mirrord target for ${names}`);
+    }
+    return this.selection;
+  }
+}
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import * as os from 'os';
+import * as path from 'path';
+import { jsonFormattingOptions } from './configFile';
+import { NotificationBuilder } from './notification';
+
+/**
+ * A launch configuration from the workspace.
+ */
+export interface LaunchConfigEntry {
+  folder: vscode.WorkspaceFolder,
+  config: vscode.DebugConfiguration,
+  /**
+   * Index of the launch configuration in the `configurations` array.
+   */
+  index: number,
+}
+
+/**
+ * The `mirrord` property of launch configurations, see `schemas/launch.schema.json`.
+ */
+export interface MirrordLaunchOptions {
+  /**
+   * Whether to run the launch configuration with mirrord, regardless of whether mirrord is enabled.
+   */
+  enabled?: boolean,
+  /**
+   * Path to the mirrord config, see @see resolveConfigFilePath.
+   */
+  configFile?: string,
+  /**
+   * Target to impersonate, skips the target selection.
+   */
+  target?: string,
+  /**
+   * Namespace of the target.
+   */
+  namespace?: string,
+  /**
+   * Don't ask for the target, even if it's not set in the config.
+   */
+  skipTargetPicker?: boolean,
+  /**
+   * Set when the launch is started for a specific config, e.g. from the config CodeLens,
+   * so that @see configFile is used even if another config is active. Not part of the schema.
+   */
+  configFilePinned?: boolean,
+}
+
+/**
+ * Reads the `mirrord` property of the launch configuration.
+ *
+ * For backward compatibility, falls back to the `MIRRORD_ACTIVE` and `MIRRORD_CONFIG_FILE` env vars.
+ */
+export function launchOptions(config: vscode.DebugConfiguration): MirrordLaunchOptions {
+  const options: MirrordLaunchOptions = typeof config.mirrord === 'object' && config.mirrord !== null ? config.mirrord : {};
+  const active: string | undefined = config.env?.["MIRRORD_ACTIVE"];
+  return {
+    ...options,
+    enabled: options.enabled ?? (active === "1" ? true : active === "0" ? false : undefined),
+    configFile: options.configFile || config.env?.["MIRRORD_CONFIG_FILE"] || undefined,
+  };
+}
+
+/**
+ * Returns the launch configurations from all workspace folders.
+ */
+export function listLaunchConfigs(): LaunchConfigEntry[] {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  return folders.flatMap(folder => {
+    const configs = vscode.workspace.getConfiguration("launch", folder)?.get<vscode.DebugConfiguration[]>("configurations") ?? [];
+    return configs.map((config, index) => {
+      return { folder, config, index };
+    });
+  });
+}
+
+/**
+ * Lets the user select a launch configuration from the workspace.
+ * Skips the selection if there is only one.
+ * @param placeHolder placeholder of the quick pick
+ */
+export async function selectLaunchConfig(placeHolder: string): Promise<LaunchConfigEntry | undefined> {
+  const entries = listLaunchConfigs();
+
+  if (entries.length === 0) {
+    new NotificationBuilder()
+      .withMessage("No launch configurations found in the workspace.")
+      .warning();
+    return undefined;
+  } else if (entries.length === 1) {
+    return entries[0];
+  }
+
+  const multiRoot = (vscode.workspace.workspaceFolders ?? []).length > 1;
+  const selected = await vscode.window.showQuickPick(
+    entries.map(entry => {
+      return {
+        label: entry.config.name,
+        description: multiRoot ? entry.folder.name : undefined,
+        entry,
+      };
+    }),
+    { placeHolder },
+  );
+
+  return selected?.entry;
+}
+
+/**
+ * Substitutes the variables VS Code supports in launch configurations and tasks: `${workspaceFolder}`,
+ * `${workspaceFolder:name}`, `${workspaceFolderBasename}`, `${userHome}`, `${env:NAME}` and `${pathSeparator}`.
+ * Other variables are left as they are.
+ *
+ * @param folder workspace folder of the launch configuration or task
+ */
+export function substituteVariables(value: string, folder: vscode.WorkspaceFolder | undefined): string {
+  return value.replace(/\$\{(\w+)(?::([^}]*))?\}/g, (variable, name: string, arg: string | undefined) => {
+    switch (name) {
+      case 'workspaceFolder':
+      case 'workspaceRoot': {
+        const target = arg === undefined ? folder : vscode.workspace.workspaceFolders?.find(f => f.name === arg);
+        return target?.uri.fsPath ?? variable;
+      }
+      case 'workspaceFolderBasename':
+        return folder?.name ?? variable;
+      case 'userHome':
+        return os.homedir();
+      case 'env':
+        return arg !== undefined ? process.env[arg] ?? '' : variable;
+      case 'pathSeparator':
+        return path.sep;
+      default:
+        return variable;
+    }
+  });
+}
+
+/**
+ * Resolves the path to the mirrord config set in the launch configuration.
+ *
+ * Handles the variables (@see substituteVariables), `~`, Windows drive letters,
+ * and paths relative to the workspace folder.
+ *
+ * @param rawPath path from the launch configuration
+ * @param folder workspace folder of the launch configuration
+ * @returns the config file, or undefined if the path is relative and there is no folder to resolve it against
+ */
+export function resolveConfigFilePath(rawPath: string, folder: vscode.WorkspaceFolder | undefined): vscode.Uri | undefined {
+  const resolved = substituteVariables(rawPath, folder).replace(/^~(?=$|[\\/])/, os.homedir());
+
+  if (path.isAbsolute(resolved) || /^[a-zA-Z]:[\\/]/.test(resolved)) {
+    return vscode.Uri.file(resolved);
+  } else if (folder === undefined) {
+    return undefined;
+  }
+
+  // Keep the scheme of the folder, e.g. in remote workspaces.
+  return vscode.Uri.joinPath(folder.uri, ...resolved.split(path.sep === '\\' ? /[\\/]/ : '/'));
+}
+
+/**
+ * Returns the mirrord config file set in the launch configuration (@see launchOptions), if any.
+ * See @see resolveConfigFilePath.
+ */
+export function launchConfigFile(entry: LaunchConfigEntry): vscode.Uri | undefined {
+  const rawPath = launchOptions(entry.config).configFile;
+  if (!rawPath) {
+    return undefined;
+  }
+
+  return resolveConfigFilePath(rawPath, entry.folder);
+}
+
+/**
+ * Returns the path of `uri` relative to `dir`, with `/` separators, or undefined if `uri` is not inside of `dir`.
+ * Returns an empty string if they are the same.
+ */
+export function relativePathIn(dir: vscode.Uri, uri: vscode.Uri): string | undefined {
+  const relative = path.relative(dir.fsPath, uri.fsPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Returns the path to the mirrord config for the launch configuration, pointing at the moved config file.
+ *
+ * Keeps the style of the previous value: paths starting with `${workspaceFolder}` and relative paths stay that way
+ * if the config is still inside of the workspace folder, other paths become absolute.
+ */
+export function movedConfigFilePath(rawPath: string, moved: vscode.Uri, folder: vscode.WorkspaceFolder): string {
+  const relative = relativePathIn(folder.uri, moved);
+  if (relative === undefined) {
+    return moved.fsPath;
+  } else if (rawPath.startsWith('${workspaceFolder}')) {
+    return `\${workspaceFolder}/${relative}`;
+  } else if (!/^(\$\{|~|[a-zA-Z]:)/.test(rawPath) && !path.isAbsolute(rawPath)) {
+    return relative;
+  }
+  return moved.fsPath;
+}
+
+/**
+ * Opens `.vscode/launch.json` of the workspace folder.
+ * Falls back to the VS Code command, which lets the user pick the folder or create the file.
+ */
+export async function openLaunchJson(folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+  if (folder !== undefined) {
+    const launchJson = vscode.Uri.joinPath(folder.uri, ".vscode", "launch.json");
+    try {
+      await vscode.workspace.fs.stat(launchJson);
+      await vscode.window.showTextDocument(launchJson);
+      return;
+    } catch {
+      // Launch configurations may come from the settings instead.
+    }
+  }
+
+  await vscode.commands.executeCommand("workbench.action.debug.configure");
+}
+
+/**
+ * Sets (or removes, if `value` is undefined) the env var in the launch configuration.
+ * See @see setLaunchConfigField.
+ */
+export async function setLaunchConfigEnv(entry: LaunchConfigEntry, key: string, value: string | undefined): Promise<void> {
+  await setLaunchConfigField(entry, "env", key, value);
+}
+
+/**
+ * Sets the path to the mirrord config in the launch configuration.
+ * Updates `mirrord.configFile` if it's set, and the `MIRRORD_CONFIG_FILE` env var otherwise.
+ */
+export async function setLaunchConfigFile(entry: LaunchConfigEntry, value: string): Promise<void> {
+  if (entry.config.mirrord?.configFile) {
+    await setLaunchConfigField(entry, "mirrord", "configFile", value);
+  } else {
+    await setLaunchConfigEnv(entry, "MIRRORD_CONFIG_FILE", value);
+  }
+}
+
+/**
+ * Sets (or removes, if `value` is undefined) the key in an object property of the launch configuration,
+ * e.g. `env` or `mirrord`.
+ *
+ * When the launch configuration comes from `.vscode/launch.json`, the file is edited in place to keep its comments.
+ * Otherwise, the `launch` setting is updated where it is defined.
+ */
+async function setLaunchConfigField(entry: LaunchConfigEntry, property: string, key: string, value: string | undefined): Promise<void> {
+  const launch = vscode.workspace.getConfiguration("launch", entry.folder);
+  const inspected = launch.inspect<vscode.DebugConfiguration[]>("configurations");
+
+  const launchJson = vscode.Uri.joinPath(entry.folder.uri, ".vscode", "launch.json");
+  let text: string | undefined;
+  try {
+    text = Buffer.from(await vscode.workspace.fs.readFile(launchJson)).toString('utf8');
+  } catch {
+    text = undefined;
+  }
+
+  if (text !== undefined && jsonc.parse(text)?.["configurations"]?.[entry.index]?.["name"] === entry.config.name) {
+    const edits = jsonc.modify(text, ["configurations", entry.index, property, key], value, { formattingOptions: jsonFormattingOptions(text) });
+    await vscode.workspace.fs.writeFile(launchJson, Buffer.from(jsonc.applyEdits(text, edits)));
+    return;
+  }
+
+  const configs = [...(launch.get<vscode.DebugConfiguration[]>("configurations") ?? [])];
+  const fields = { ...configs[entry.index]?.[property] };
+  if (value === undefined) {
+    delete fields[key];
+  } else {
+    fields[key] = value;
+  }
+  configs[entry.index] = { ...configs[entry.index]!, [property]: fields };
+
+  const target = inspected?.workspaceFolderValue !== undefined
+    ? vscode.ConfigurationTarget.WorkspaceFolder
+    : inspected?.workspaceValue !== undefined ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+  await launch.update("configurations", configs, target);
+}
@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import { ChildProcessWithoutNullStreams } from 'child_process';
+import { platform } from 'node:os';
+import { getMirrordAPI } from './binaryManager';
+import { isTargetSet, MirrordConfigManager } from './config';
+import { globalContext } from './extension';
+import { listKubeContexts } from './kubeconfig';
+import { MirrordLaunchOptions, substituteVariables } from './launchConfigs';
+import { TargetQuickPick, UserSelection } from './targetQuickPick';
+import Logger from './logger';
+
+/**
+ * Type of the tasks, contributed in `taskDefinitions` in `package.json`.
+ */
+const TASK_TYPE = 'mirrord';
+
+/**
+ * A mirrord task from `tasks.json`.
+ */
+interface MirrordTaskDefinition extends vscode.TaskDefinition, Omit<MirrordLaunchOptions, 'enabled' | 'configFilePinned'> {
+  /**
+   * Command to run. Runs in a shell, unless @see args are given.
+   */
+  command?: string,
+  args?: string[],
+  /**
+   * Label of a shell or process task to run instead of @see command.
+   */
+  task?: string,
+  cwd?: string,
+  env?: Record<string, string>,
+}
+
+/**
+ * Command run by a mirrord task.
+ */
+interface TaskCommand {
+  /**
+   * Executable and its arguments.
+   */
+  command: string[],
+  cwd?: string,
+  env: Record<string, string>,
+}
+
+/**
+ * Shell that runs the command lines, with the arguments given before the command line.
+ */
+interface Shell {
+  executable: string,
+  args: string[],
+}
+
+function isCmd(executable: string): boolean {
+  return /(^|[\\/])cmd(\.exe)?$/i.test(executable);
+}
+
+function isPowerShell(executable: string): boolean {
+  return /(^|[\\/])(powershell|pwsh)(\.exe)?$/i.test(executable);
+}
+
+/**
+ * Returns the arguments VS Code passes to the shell before the command line, when the task does not set `shellArgs`.
+ */
+function defaultShellArgs(executable: string): string[] {
+  if (isCmd(executable)) {
+    return ['/d', '/s', '/c'];
+  } else if (isPowerShell(executable)) {
+    return ['-Command'];
+  } else {
+    return ['-c'];
+  }
+}
+
+/**
+ * Returns the shell of a shell task, from its `executable` and `shellArgs` options, or the default shell.
+ */
+function taskShell(options: vscode.ShellExecutionOptions | undefined): Shell {
+  if (options?.executable === undefined) {
+    const executable = platform() === 'win32' ? 'cmd.exe' : vscode.env.shell || '/bin/sh';
+    return { executable, args: defaultShellArgs(executable) };
+  }
+  return { executable: options.executable, args: options.shellArgs ?? defaultShellArgs(options.executable) };
+}
+
+/**
+ * Returns the arguments that run the command line in the shell.
+ */
+function inShell(commandLine: string, shell: Shell = taskShell(undefined)): string[] {
+  return [shell.executable, ...shell.args, commandLine];
+}
+
+/**
+ * Quotes the argument of a shell task for the shell, like VS Code does.
+ */
+function shellArg(arg: string | vscode.ShellQuotedString, shell: Shell): string {
+  const value = typeof arg === 'string' ? arg : arg.value;
+  const quoting = typeof arg === 'string' ? (/\s/.test(arg) ? vscode.ShellQuoting.Strong : undefined) : arg.quoting;
+
+  if (isCmd(shell.executable)) {
+    // cmd.exe has no strong quoting, and escapes with `^`.
+    switch (quoting) {
+      case vscode.ShellQuoting.Strong:
+      case vscode.ShellQuoting.Weak:
+        return `"${value.replace(/"/g, '""')}"`;
+      case vscode.ShellQuoting.Escape:
+        return value.replace(/([\s"^&|<>()%])/g, '^$1');
+      default:
+        return value;
+    }
+  }
+
+  if (isPowerShell(shell.executable)) {
+    // PowerShell escapes with a backtick.
+    switch (quoting) {
+      case vscode.ShellQuoting.Strong:
+        return `'${value.replace(/'/g, "''")}'`;
+      case vscode.ShellQuoting.Weak:
+        return `"${value}"`;
+      case vscode.ShellQuoting.Escape:
+        return value.replace(/([\s'"`$])/g, '`$1');
+      default:
+        return value;
+    }
+  }
+
+  switch (quoting) {
+    case vscode.ShellQuoting.Strong:
+      return `'${value.replace(/'/g, `'\\''`)}'`;
+    case vscode.ShellQuoting.Weak:
+      return `"${value}"`;
+    case vscode.ShellQuoting.Escape:
+      return value.replace(/([\s'"\\])/g, '\\$1');
+    default:
+      return value;
+  }
+}
+
+/**
+ * Returns the command of the shell or process task with the given label.
+ * Tasks returned by `vscode.tasks.fetchTasks` are not resolved, so the variables are substituted here.
+ */
+async function wrappedTaskCommand(label: string, folder: vscode.WorkspaceFolder | undefined): Promise<TaskCommand> {
+  const tasks = await vscode.tasks.fetchTasks();
+  const task = tasks.find(t => t.name === label && t.definition.type !== TASK_TYPE);
+  if (task === undefined) {
+    throw new Error(`task "${label}" not found`);
+  }
+
+  const execution = task.execution;
+  let command: string[];
+  if (execution instanceof vscode.ShellExecution) {
+    // The shell of the task, e.g. `bash` on Windows, with the variables in its path and arguments substituted.
+    const options = execution.options;
+    const shell = taskShell(options?.executable === undefined ? undefined : {
+      executable: substituteVariables(options.executable, folder),
+      shellArgs: options.shellArgs?.map(arg => substituteVariables(arg, folder)),
+    });
+    const commandLine = execution.commandLine
+      ?? [execution.command!, ...(execution.args ?? [])].map(arg => shellArg(arg, shell)).join(' ');
+    command = inShell(substituteVariables(commandLine, folder), shell);
+  } else if (execution instanceof vscode.ProcessExecution) {
+    command = [execution.process, ...execution.args].map(arg => substituteVariables(arg, folder));
+  } else {
+    throw new Error(`task "${label}" is not a shell or process task`);
+  }
+
+  const env = Object.fromEntries(Object.entries(execution.options?.env ?? {}).map(([key, value]) => [key, substituteVariables(value, folder)]));
+  const cwd = execution.options?.cwd !== undefined ? substituteVariables(execution.options.cwd, folder) : undefined;
+  return { command, cwd, env };
+}
+
+/**
+ * Terminal of a running mirrord task.
+ *
+ * Resolves the mirrord config and the target the same way as for launch configurations (see `main()` in `debugger.ts`),
+ * then runs the command with `mirrord exec` and shows its output.
+ */
+class MirrordTaskTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  readonly onDidWrite = this.writeEmitter.event;
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  readonly onDidClose = this.closeEmitter.event;
+
+  /**
+   * The `mirrord exec` process, once started.
+   */
+  private child?: ChildProcessWithoutNullStreams;
+  /**
+   * Whether the task was terminated by the user.
+   */
+  private closed = false;
+  /**
+   * Whether the exit code was reported, e.g. a process that fails to spawn emits both `error` and `close`.
+   */
+  private exited = false;
+
+  constructor(
+    private readonly folder: vscode.WorkspaceFolder | undefined,
+    private readonly name: string,
+    private readonly definition: MirrordTaskDefinition,
+  ) { }
+
+  open() {
+    this.run().catch(e => {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      Logger.error(`mirrord task ${this.name} failed: ${errorMsg}`);
+      this.write(`mirrord task failed: ${errorMsg}\n`);
+      this.exit(1);
+    });
+  }
+
+  close() {
+    this.closed = true;
+    this.child?.kill();
+  }
+
+  handleInput(data: string) {
+    if (data === '\x03') {
+      this.child?.kill('SIGINT');
+      return;
+    }
+
+    // The process does not run in a TTY, so the input is echoed here.
+    this.write(data.replace(/\r/g, '\n'));
+    if (this.child?.stdin.writable) {
+      this.child.stdin.write(data.replace(/\r/g, '\n'));
+    }
+  }
+
+  private write(text: string) {
+    this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+  }
+
+  private exit(code: number) {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    this.closeEmitter.fire(code);
+  }
+
+  private async run() {
+    const taskCommand: TaskCommand = this.definition.task !== undefined
+      ? await wrappedTaskCommand(this.definition.task, this.folder)
+      : {
+        command: this.definition.args !== undefined ? [this.definition.command!, ...this.definition.args] : inShell(this.definition.command!),
+        cwd: this.definition.cwd,
+        env: this.definition.env ?? {},
+      };
+
+    const mirrordApi = await getMirrordAPI();
+
+    const options: MirrordLaunchOptions = {
+      configFile: this.definition.configFile,
+      target: this.definition.target,
+      namespace: this.definition.namespace,
+      skipTargetPicker: this.definition.skipTargetPicker,
+    };
+    const config: vscode.DebugConfiguration = { type: TASK_TYPE, request: 'launch', name: this.name, env: taskCommand.env, mirrord: options };
+    const configPath = await MirrordConfigManager.getInstance().resolveMirrordConfig(this.folder, config);
+    if (configPath === undefined) {
+      this.exit(1);
+      return;
+    }
+
+    // The namespace from the task, when there is no target selection to carry it.
+    const cliEnv: Record<string, string> = options.namespace !== undefined && options.target === undefined
+      ? { ...taskCommand.env, MIRRORD_TARGET_NAMESPACE: options.namespace }
+      : taskCommand.env;
+    const verifiedConfig = await mirrordApi.verifyConfig(configPath, cliEnv);
+    const targetMissing = !configPath || (verifiedConfig && !isTargetSet(verifiedConfig));
+
+    let selection: UserSelection | undefined;
+    if (options.target !== undefined) {
+      selection = { path: options.target, namespace: options.namespace };
+    } else if (targetMissing && !options.skipTargetPicker) {
+      const getTargets = async (namespace?: string, context?: string) => {
+        return mirrordApi.listTargets(configPath?.fsPath, taskCommand.env, TargetQuickPick.getSupportedTargetTypes(), namespace ?? options.namespace, context);
+      };
+      const quickPick = await TargetQuickPick.new(getTargets, {
+        launchConfig: { folder: this.folder, name: this.name },
+        kubeContexts: await listKubeContexts(taskCommand.env),
+        configPath: configPath?.fsPath,
+        fetcherInputs: { namespace: options.namespace, env: taskCommand.env },
+        title: `mirrord target for task "${this.name}"`,
+      });
+      selection = await quickPick.showAndGet();
+      if (selection === undefined) {
+        this.write('Target selection dismissed, not running the task.\n');
+        this.exit(1);
+        return;
+      }
+    }
+
+    if (this.closed) {
+      return;
+    }
+
+    const target = selection !== undefined ? ` on ${selection.path}` : '';
+    this.write(`Running ${taskCommand.command.join(' ')} with mirrord${target}\n\n`);
+
+    const child = mirrordApi.spawnExec(
+      selection,
+      configPath?.fsPath ?? null,
+      taskCommand.command,
+      selection === undefined ? cliEnv : taskCommand.env,
+      taskCommand.cwd ?? this.folder?.uri.fsPath,
+    );
+    this.child = child;
+
+    // Input written while the process exits fails with EPIPE.
+    child.stdin.on('error', err => Logger.debug(`mirrord task ${this.name} stdin closed: ${err.message}`));
+    child.stdout.on('data', data => this.write(data.toString()));
+    child.stderr.on('data', data => this.write(data.toString()));
+    child.on('error', err => {
+      Logger.error(`mirrord task ${this.name} failed: ${err.message}`);
+      this.write(`mirrord task failed: ${err.message}\n`);
+      this.exit(1);
+    });
+    child.on('close', code => this.exit(code ?? 1));
+  }
+}
+
+/**
+ * Provides the `mirrord` task type, which runs a command (or another shell or process task) with `mirrord exec`.
+ * The tasks can run on their own, or as a `preLaunchTask`.
+ */
+export class MirrordTaskProvider implements vscode.TaskProvider {
+  register(): MirrordTaskProvider {
+    globalContext.subscriptions.push(vscode.tasks.registerTaskProvider(TASK_TYPE, this));
+    return this;
+  }
+
+  /**
+   * mirrord tasks are defined only in `tasks.json`.
+   */
+  provideTasks(): vscode.Task[] {
+    return [];
+  }
+
+  resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as MirrordTaskDefinition;
+    if (definition.command === undefined && definition.task === undefined) {
+      Logger.warn(`mirrord task ${task.name} has neither "command" nor "task"`);
+      return undefined;
+    }
+
+    const folder = typeof task.scope === 'object' ? task.scope : undefined;
+    return new vscode.Task(
+      definition,
+      task.scope ?? vscode.TaskScope.Workspace,
+      task.name,
+      TASK_TYPE,
+      new vscode.CustomExecution(async resolved => new MirrordTaskTerminal(folder, task.name, resolved as MirrordTaskDefinition)),
+    );
+  }
+}
@@ -52,9 +52,13 @@ export class MirrordStatus {
 
         statusBar.tooltip.appendMarkdown(`[${enabled ? 'Enabled' : 'Disabled'}](command:${MirrordStatus.toggleCommandId})`);
         statusBar.tooltip.appendText("\n\n");
-        const activeConfig = MirrordConfigManager.getInstance().activeConfig();
-        if (activeConfig) {
-            statusBar.tooltip.appendMarkdown(`\n\n[Active config: ${vscode.workspace.asRelativePath(activeConfig)}](${activeConfig})`);
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        for (const folder of folders.length > 0 ? folders : [undefined]) {
+            const activeConfig = MirrordConfigManager.getInstance().activeConfigOf(folder);
+            if (activeConfig) {
+                const label = folders.length > 1 ? `Active config (${folder!.name})` : 'Active config';
+                statusBar.tooltip.appendMarkdown(`\n\n[${label}: ${vscode.workspace.asRelativePath(activeConfig)}](${activeConfig})`);
+            }
         }
         statusBar.tooltip.appendMarkdown(`\n\n[Select active config](command:${MirrordStatus.selectActiveConfigId})`);
         statusBar.tooltip.appendMarkdown(`\n\n[Settings](command:${MirrordStatus.settingsCommandId})`);
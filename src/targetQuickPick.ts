@@ -1,11 +1,22 @@
 import * as vscode from 'vscode';
-import { MirrordLsOutput } from './api';
+import { FoundTarget, MirrordLsOutput, TargetMetadata } from './api';
 import { globalContext } from './extension';
 import { NotificationBuilder } from './notification';
+import { KubeContexts } from './kubeconfig';
+import Logger from './logger';
 
 /// Key used to store the last selected target in the persistent state.
 const LAST_TARGET_KEY = "mirrord-last-target";
 
+/// Key used to store the last selected target of each launch configuration in the workspace state.
+const LAST_TARGET_BY_LAUNCH_CONFIG_KEY = "mirrord-last-target-by-launch-config";
+
+/// Key used to store the last selected container of each target in the persistent state.
+const LAST_CONTAINER_KEY = "mirrord-last-container";
+
+/// Key used to store the last selected kube context in the workspace state.
+const LAST_CONTEXT_KEY = "mirrord-last-context";
+
 /**
  * A page in the @see TargetQuickPick.
  */
@@ -17,7 +28,7 @@ interface TargetQuickPickPage {
     /**
      * Prefix of targets visible on this page, mirrord config format.
      * 
-     * undefined **only** for namespace selection page.
+     * undefined **only** for namespace and cluster context selection pages.
      */
     targetType?: string,
 }
@@ -29,6 +40,13 @@ const NAMESPACE_SELECTION_PAGE: TargetQuickPickPage = {
     label: 'Select Another Namespace',
 };
 
+/**
+ * Cluster context selection page in the @see TargetQuickPick.
+ */
+const CONTEXT_SELECTION_PAGE: TargetQuickPickPage = {
+    label: 'Select Another Cluster Context',
+};
+
 /**
  * Target selection pages in the @see TargetQuickPick.
  */
@@ -45,6 +63,26 @@ const TARGET_SELECTION_PAGES: (TargetQuickPickPage & { targetType: string })[] =
         label: 'Show Pods',
         targetType: 'pod',
     },
+    {
+        label: 'Show StatefulSets',
+        targetType: 'statefulset',
+    },
+    {
+        label: 'Show ReplicaSets',
+        targetType: 'replicaset',
+    },
+    {
+        label: 'Show Jobs',
+        targetType: 'job',
+    },
+    {
+        label: 'Show CronJobs',
+        targetType: 'cronjob',
+    },
+    {
+        label: 'Show Services',
+        targetType: 'service',
+    },
 ];
 
 /**
@@ -52,7 +90,10 @@ const TARGET_SELECTION_PAGES: (TargetQuickPickPage & { targetType: string })[] =
  */
 type TargetQuickPickItem = vscode.QuickPickItem & (
     { type: 'target', value: string } | // select target
+    { type: 'unavailable', value: FoundTarget } | // target that cannot be used, selecting it explains why
     { type: 'namespace', value: string } | // switch to another namespace
+    { type: 'context', value: string } | // switch to another kube context
+    { type: 'container', value: string } | // select container of the selected target
     { type: 'page', value: TargetQuickPickPage } // switch to another page (e.g select pod -> select deployment)
 );
 
@@ -66,9 +107,191 @@ const TARGETLESS_ITEM: TargetQuickPickItem = {
 };
 
 /**
- * A function used by @see TargetQuickPick to invoke `mirrord ls` in the given namespace.
+ * What happens when the user dismisses the @see TargetQuickPick, see the `mirrord.targetPickerDismissAction` setting.
+ */
+export type DismissAction = 'targetless' | 'abort' | 'ask';
+
+/**
+ * Title button in the @see TargetQuickPick that refreshes the list of targets.
+ */
+const REFRESH_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('refresh'),
+    tooltip: 'Refresh targets',
+};
+
+/**
+ * Button on target items in the @see TargetQuickPick that saves the target in the mirrord config.
+ */
+const SAVE_TO_CONFIG_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('save'),
+    tooltip: 'Save to config',
+};
+
+/**
+ * Outputs of the previous `mirrord ls` invocations, keyed with @see lsCacheKey.
+ *
+ * Lives as long as the extension, so that the @see TargetQuickPick can be displayed right away
+ * on subsequent launches, while the targets are refreshed in the background.
+ */
+const LS_OUTPUT_CACHE = new Map<string, MirrordLsOutput>();
+
+/**
+ * Variables of the launch env that change the output of `mirrord ls`, part of the @see lsCacheKey.
+ */
+const LS_ENV_VARS = ['MIRRORD_TARGET_NAMESPACE', 'MIRRORD_KUBE_CONTEXT', 'KUBECONFIG'];
+
+/**
+ * Returns the key of a `mirrord ls` invocation in the @see LS_OUTPUT_CACHE.
+ */
+function lsCacheKey(configPath: string | undefined, inputs: TargetFetcherInputs | undefined, context?: string, namespace?: string): string {
+    const env = LS_ENV_VARS.map(name => inputs?.env?.[name] ?? null);
+    return JSON.stringify([configPath ?? null, inputs?.namespace ?? null, env, context ?? null, namespace ?? null]);
+}
+
+/**
+ * Explanation shown for an unavailable target when the CLI does not tell us the reason.
+ */
+const DEFAULT_UNAVAILABLE_REASON = 'Target is not available (e.g. it has no running pods, or is scaled to zero)';
+
+/**
+ * Returns the reason why the given target cannot be used.
+ */
+function unavailableReason(target: FoundTarget): string {
+    return target.unavailable_reason ?? DEFAULT_UNAVAILABLE_REASON;
+}
+
+/**
+ * Formats the age of a resource like `kubectl` does, e.g. `5d`, `3h`, `12m`.
+ */
+function formatAge(createdAt: string): string | undefined {
+    const created = Date.parse(createdAt);
+    if (isNaN(created)) {
+        return undefined;
+    }
+
+    const seconds = Math.max(0, Math.floor((Date.now() - created) / 1000));
+    if (seconds < 60) {
+        return `${seconds}s`;
+    } else if (seconds < 60 * 60) {
+        return `${Math.floor(seconds / 60)}m`;
+    } else if (seconds < 60 * 60 * 24) {
+        return `${Math.floor(seconds / (60 * 60))}h`;
+    } else {
+        return `${Math.floor(seconds / (60 * 60 * 24))}d`;
+    }
+}
+
+/**
+ * Returns a short description of the target's status, e.g. `Running · 2 restarts · 5d`.
+ */
+function describeMetadata(metadata: TargetMetadata): string | undefined {
+    const parts: string[] = [];
+    if (metadata.phase !== undefined) {
+        parts.push(metadata.phase);
+    }
+    if (metadata.replicas !== undefined) {
+        parts.push(metadata.ready_replicas !== undefined
+            ? `${metadata.ready_replicas}/${metadata.replicas} ready`
+            : `${metadata.replicas} replicas`);
+    }
+    if (metadata.restarts !== undefined) {
+        parts.push(metadata.restarts === 1 ? '1 restart' : `${metadata.restarts} restarts`);
+    }
+    if (metadata.created_at !== undefined) {
+        const age = formatAge(metadata.created_at);
+        if (age !== undefined) {
+            parts.push(age);
+        }
+    }
+
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+/**
+ * Returns the labels of the target in the `key=value` format, so that the user can filter on them.
+ */
+function describeLabels(metadata: TargetMetadata): string | undefined {
+    const labels = Object.entries(metadata.labels ?? {}).map(([key, value]) => `${key}=${value}`);
+    return labels.length > 0 ? labels.join(', ') : undefined;
+}
+
+/**
+ * A function used by @see TargetQuickPick to invoke `mirrord ls` in the given namespace and kube context.
+ */
+export type TargetFetcher = (namespace?: string, context?: string) => Thenable<MirrordLsOutput>;
+
+/**
+ * Inputs of a @see TargetFetcher besides the namespace and kube context it is called with.
+ */
+export interface TargetFetcherInputs {
+    /**
+     * Namespace used when the fetcher is called without one, e.g. from the `mirrord` property of the launch configuration.
+     */
+    namespace?: string,
+    /**
+     * Env passed to `mirrord ls`, e.g. from the launch configuration.
+     */
+    env?: Record<string, string>,
+}
+
+/**
+ * Identifies the launch configuration for which the @see TargetQuickPick is shown.
  */
-export type TargetFetcher = (namespace?: string) => Thenable<MirrordLsOutput>;
+export interface LaunchConfigId {
+    /**
+     * Workspace folder the launch configuration comes from, if any.
+     */
+    folder?: vscode.WorkspaceFolder,
+    /**
+     * Name of the launch configuration.
+     */
+    name: string,
+}
+
+/**
+ * Returns the key of the given launch configuration in the @see LAST_TARGET_BY_LAUNCH_CONFIG_KEY record.
+ */
+function launchConfigKey(launchConfig: LaunchConfigId): string {
+    return `${launchConfig.folder?.uri.toString() ?? ''}#${launchConfig.name}`;
+}
+
+/**
+ * Additional options of the @see TargetQuickPick.
+ */
+export interface TargetQuickPickOptions {
+    /**
+     * Launch configuration for which the target is selected,
+     * used to remember the last target per launch configuration.
+     */
+    launchConfig?: LaunchConfigId,
+    /**
+     * Contexts from the active kubeconfig, the user can switch between them.
+     * The context selected most recently is used initially, if it still exists.
+     */
+    kubeContexts?: KubeContexts,
+    /**
+     * Path to the mirrord config used to list the targets, part of the `mirrord ls` cache key.
+     */
+    configPath?: string,
+    /**
+     * Other inputs of the @see TargetFetcher, part of the `mirrord ls` cache key.
+     */
+    fetcherInputs?: TargetFetcherInputs,
+    /**
+     * Saves the final selection in the mirrord config, with the container and kube context.
+     * 
+     * If present, target items have a "Save to config" button.
+     */
+    saveTarget?: (target: UserSelection) => Thenable<void>,
+    /**
+     * What happens when the user selects nothing, overrides the `mirrord.targetPickerDismissAction` setting.
+     */
+    dismissAction?: DismissAction,
+    /**
+     * Title of the quick pick, e.g. the launch configurations the target is selected for.
+     */
+    title?: string,
+}
 
 /**
  * Describes what the user has selected with the @see TargetQuickPick.
@@ -84,6 +307,18 @@ export interface UserSelection {
      * undefined if the CLI does not support listing namespaces.
      */
     namespace?: string,
+    /**
+     * Selected container of the target.
+     *
+     * undefined if the target has at most one container, or the CLI does not list containers.
+     */
+    container?: string,
+    /**
+     * Selected kube context.
+     *
+     * undefined if the user did not switch away from the default context.
+     */
+    context?: string,
 }
 
 /**
@@ -93,7 +328,8 @@ export class TargetQuickPick {
     /**
      * Output of the last `mirrord ls` invocation.
      * 
-     * Should contain only targets that are available and supported by this widget (deployments, rollouts and pods).
+     * Should contain only targets that are supported by this widget (listed in @see TARGET_SELECTION_PAGES).
+     * Unavailable targets are kept, so that they can be displayed along with the reason.
      */
     private lsOutput: MirrordLsOutput;
     /**
@@ -103,44 +339,196 @@ export class TargetQuickPick {
     /**
      * Target that was selected most recently by the user.
      * 
+     * Preferably the one selected for the same launch configuration (@see launchConfig),
+     * falls back to the one selected in this workspace, and then globally.
+     * 
      * This target, if present in @see lsOutput, is put first on its page.
      * Also, determines initial page.
      */
     private readonly lastTarget?: string;
+    /**
+     * Launch configuration for which this quick pick is shown.
+     */
+    private readonly launchConfig?: LaunchConfigId;
+    /**
+     * Contexts from the active kubeconfig.
+     */
+    private readonly kubeContexts: KubeContexts;
+    /**
+     * Kube context used in @see lsOutput. undefined means the default context.
+     */
+    private context?: string;
+    /**
+     * Namespace requested in @see lsOutput. undefined means the default namespace.
+     */
+    private namespace?: string;
+    /**
+     * Path to the mirrord config used to list the targets, part of the `mirrord ls` cache key.
+     */
+    private readonly configPath?: string;
+    /**
+     * Other inputs of @see getTargets, part of the `mirrord ls` cache key.
+     */
+    private readonly fetcherInputs?: TargetFetcherInputs;
+    /**
+     * Whether @see lsOutput was taken from the cache and should be refreshed once the quick pick is shown.
+     */
+    private stale: boolean;
+    /**
+     * Target for which the user is selecting the container, if any.
+     */
+    private containerTarget?: string;
+    /**
+     * Number of `mirrord ls` invocations in progress, the quick pick is busy when positive.
+     */
+    private pendingRefreshes = 0;
+    /**
+     * Saves the target in the mirrord config, @see TargetQuickPickOptions.saveTarget.
+     */
+    private readonly saveTarget?: (target: UserSelection) => Thenable<void>;
+    /**
+     * Whether the target was selected with the "Save to config" button. The selection is saved once it is final,
+     * i.e. after the container selection step.
+     */
+    private saveRequested = false;
+    /**
+     * @see TargetQuickPickOptions.dismissAction
+     */
+    private readonly dismissAction?: DismissAction;
+    /**
+     * @see TargetQuickPickOptions.title
+     */
+    private readonly title?: string;
+    /**
+     * The widget, present only while the quick pick is shown.
+     */
+    private quickPick?: vscode.QuickPick<TargetQuickPickItem>;
     /**
      * Function used to invoke `mirrord ls` and get its output.
      * 
-     * Should return only targets that are available and supported by this widget (deployments, rollouts and pods).
+     * Should return only targets that are supported by this widget (listed in @see TARGET_SELECTION_PAGES).
      */
     private readonly getTargets: TargetFetcher;
 
-    private constructor(getTargets: TargetFetcher, lsOutput: MirrordLsOutput) {
-        this.lastTarget = globalContext.workspaceState.get(LAST_TARGET_KEY) || globalContext.globalState.get(LAST_TARGET_KEY);
+    private constructor(getTargets: TargetFetcher, lsOutput: MirrordLsOutput, stale: boolean, context: string | undefined, options: TargetQuickPickOptions) {
+        let lastTarget: string | undefined;
+        if (options.launchConfig !== undefined) {
+            const byLaunchConfig: Record<string, string> = globalContext.workspaceState.get(LAST_TARGET_BY_LAUNCH_CONFIG_KEY) ?? {};
+            lastTarget = byLaunchConfig[launchConfigKey(options.launchConfig)];
+        }
+
+        this.lastTarget = lastTarget || globalContext.workspaceState.get(LAST_TARGET_KEY) || globalContext.globalState.get(LAST_TARGET_KEY);
+        this.launchConfig = options.launchConfig;
+        this.kubeContexts = options.kubeContexts ?? { contexts: [] };
+        this.configPath = options.configPath;
+        this.fetcherInputs = options.fetcherInputs;
+        this.saveTarget = options.saveTarget;
+        this.dismissAction = options.dismissAction;
+        this.title = options.title;
+        this.context = context;
         this.lsOutput = lsOutput;
+        this.stale = stale;
         this.getTargets = getTargets;
     }
 
     /**
      * Creates a new instance of this quick pick.
      * 
+     * If there is a cached `mirrord ls` output for the config and kube context, it is used right away,
+     * and refreshed in the background once the quick pick is shown.
+     * 
      * This quick pick can be executed using @see showAndGet.
      */
-    static async new(getTargets: (namespace?: string) => Thenable<MirrordLsOutput>): Promise<TargetQuickPick> {
-        const getFilteredTargets = async (namespace?: string) => {
-            const output = await getTargets(namespace);
+    static async new(getTargets: TargetFetcher, options: TargetQuickPickOptions = {}): Promise<TargetQuickPick> {
+        const getFilteredTargets = async (namespace?: string, context?: string) => {
+            const output = await getTargets(namespace, context);
             output.targets = output.targets.filter(t => {
-                if (!t.available) {
-                    return false;
-                }
                 const targetType = t.path.split('/')[0];
                 return TARGET_SELECTION_PAGES.find(p => p.targetType === targetType) !== undefined;
             });
             return output;
         };
 
-        const lsOutput = await getFilteredTargets();
+        const contexts = options.kubeContexts?.contexts ?? [];
+        const lastContext: string | undefined = globalContext.workspaceState.get(LAST_CONTEXT_KEY);
+        const context = lastContext !== undefined && contexts.includes(lastContext) ? lastContext : undefined;
 
-        return new TargetQuickPick(getFilteredTargets, lsOutput);
+        const cacheKey = lsCacheKey(options.configPath, options.fetcherInputs, context);
+        let lsOutput = LS_OUTPUT_CACHE.get(cacheKey);
+        const stale = lsOutput !== undefined;
+        if (lsOutput === undefined) {
+            lsOutput = await getFilteredTargets(undefined, context);
+            LS_OUTPUT_CACHE.set(cacheKey, lsOutput);
+        }
+
+        return new TargetQuickPick(getFilteredTargets, lsOutput, stale, context, options);
+    }
+
+    /**
+     * Returns the key of the current namespace and kube context in the @see LS_OUTPUT_CACHE.
+     */
+    private cacheKey(): string {
+        return lsCacheKey(this.configPath, this.fetcherInputs, this.context, this.namespace);
+    }
+
+    /**
+     * Invokes `mirrord ls` for the current namespace and kube context, and updates the quick pick in place.
+     * 
+     * The output is discarded if the user switched to another namespace or context in the meantime.
+     */
+    private async refresh(): Promise<void> {
+        const cacheKey = this.cacheKey();
+
+        this.pendingRefreshes += 1;
+        if (this.quickPick) {
+            this.quickPick.busy = true;
+        }
+
+        try {
+            const output = await this.getTargets(this.namespace, this.context);
+            LS_OUTPUT_CACHE.set(cacheKey, output);
+
+            if (cacheKey === this.cacheKey()) {
+                this.lsOutput = output;
+                this.render();
+            }
+        } finally {
+            this.pendingRefreshes -= 1;
+            if (this.quickPick) {
+                this.quickPick.busy = this.pendingRefreshes > 0;
+            }
+        }
+    }
+
+    /**
+     * Refreshes the targets in the background, the cached ones stay visible on failure.
+     */
+    private refreshInBackground() {
+        this.refresh().catch(e => {
+            const errorMsg = e instanceof Error ? e.message : String(e);
+            Logger.warn(`failed to refresh mirrord targets: ${errorMsg}`);
+        });
+    }
+
+    /**
+     * Switches to another namespace and/or kube context.
+     * 
+     * Cached targets are displayed right away and refreshed in the background.
+     * Otherwise, waits for `mirrord ls`.
+     */
+    private async switchTo(namespace: string | undefined, context: string | undefined) {
+        this.namespace = namespace;
+        this.context = context;
+        this.activePage = undefined;
+
+        const cached = LS_OUTPUT_CACHE.get(this.cacheKey());
+        if (cached !== undefined) {
+            this.lsOutput = cached;
+            this.render();
+            this.refreshInBackground();
+        } else {
+            await this.refresh();
+        }
     }
 
     /**
@@ -150,8 +538,31 @@ export class TargetQuickPick {
         return this.lsOutput.targets.find(t => t.path.startsWith(`${targetType}/`)) !== undefined;
     }
 
+    /**
+     * Returns whether the user can switch to another kube context.
+     */
+    private canSwitchContext(): boolean {
+        return this.kubeContexts.contexts.length > 1;
+    }
+
+    /**
+     * Returns the kube context used in @see lsOutput, if known.
+     */
+    private currentContext(): string | undefined {
+        return this.context ?? this.kubeContexts.current;
+    }
+
+    /**
+     * Returns buttons for the target items.
+     */
+    private targetButtons(): vscode.QuickInputButton[] {
+        return this.saveTarget !== undefined ? [SAVE_TO_CONFIG_BUTTON] : [];
+    }
+
     /**
      * Returns a default page to display. undefined if @see lsOutput contains no targets.
+     *
+     * Pages with available targets are preferred.
      */
     private getDefaultPage(): TargetQuickPickPage | undefined {
         let page: TargetQuickPickPage | undefined;
@@ -162,9 +573,8 @@ export class TargetQuickPick {
         }
 
         if (page === undefined) {
-            page = this
-                .lsOutput
-                .targets
+            page = [...this.lsOutput.targets]
+                .sort((t1, t2) => Number(t2.available) - Number(t1.available))
                 .map(t => {
                     const targetType = t.path.split('/')[0] ?? '';
                     return TARGET_SELECTION_PAGES.find(p => p.targetType === targetType);
@@ -201,6 +611,50 @@ export class TargetQuickPick {
                     label: NAMESPACE_SELECTION_PAGE.label,
                 });
             }
+
+            if (this.canSwitchContext()) {
+                items.push({
+                    type: 'page',
+                    value: CONTEXT_SELECTION_PAGE,
+                    label: CONTEXT_SELECTION_PAGE.label,
+                });
+            }
+        } else if (this.activePage === CONTEXT_SELECTION_PAGE) {
+            placeholder = "Select another cluster context";
+            const currentContext = this.currentContext();
+            if (currentContext !== undefined) {
+                placeholder += ` (current: ${currentContext})`;
+            }
+
+            items = this
+                .kubeContexts
+                .contexts
+                .filter(ctx => ctx !== currentContext)
+                .map(ctx => {
+                    return {
+                        type: 'context',
+                        value: ctx,
+                        label: ctx,
+                    };
+                });
+
+            TARGET_SELECTION_PAGES
+                .filter(p => this.hasTargetOfType(p.targetType))
+                .forEach(p => {
+                    items.push({
+                        type: 'page',
+                        value: p,
+                        label: p.label,
+                    });
+                });
+
+            if (this.lsOutput.namespaces !== undefined) {
+                items.push({
+                    type: 'page',
+                    value: NAMESPACE_SELECTION_PAGE,
+                    label: NAMESPACE_SELECTION_PAGE.label,
+                });
+            }
         } else if (this.activePage.targetType === undefined) {
             placeholder = "Select another namespace";
             if (this.lsOutput.current_namespace !== undefined) {
@@ -228,35 +682,62 @@ export class TargetQuickPick {
                         label: p.label,
                     });
                 });
+
+            if (this.canSwitchContext()) {
+                items.push({
+                    type: 'page',
+                    value: CONTEXT_SELECTION_PAGE,
+                    label: CONTEXT_SELECTION_PAGE.label,
+                });
+            }
         } else {
             placeholder = "Select a target";
             if (this.lsOutput.current_namespace !== undefined) {
                 placeholder += ` from ${this.lsOutput.current_namespace}`;
             }
 
-            items = this
+            const pageTargets = this
                 .lsOutput
                 .targets
-                .filter(t => t.path.startsWith(`${this.activePage?.targetType}/`))
+                .filter(t => t.path.startsWith(`${this.activePage?.targetType}/`));
+
+            items = pageTargets
+                .filter(t => t.available)
                 .map(t => {
                     return {
                         type: 'target',
                         value: t.path,
                         label: t.path,
+                        description: t.metadata && describeMetadata(t.metadata),
+                        detail: t.metadata && describeLabels(t.metadata),
+                        buttons: this.targetButtons(),
                     };
                 });
 
             if (this.lastTarget !== undefined) {
-                const idx = items.findIndex(i => i.value === this.lastTarget);
+                const idx = items.findIndex(i => i.type === 'target' && i.value === this.lastTarget);
                 if (idx !== -1) {
                     items.unshift({
                         type: 'target',
                         value: this.lastTarget,
                         label: `Use most recent target: ${this.lastTarget}`,
+                        buttons: this.targetButtons(),
                     });
                 }
             }
 
+            pageTargets
+                .filter(t => !t.available)
+                .forEach(t => {
+                    items.push({
+                        type: 'unavailable',
+                        value: t,
+                        label: `$(circle-slash) ${t.path}`,
+                        description: ['unavailable', t.metadata && describeMetadata(t.metadata)].filter(d => d).join(' · '),
+                        detail: unavailableReason(t),
+                    });
+                });
+
             items.push(TARGETLESS_ITEM);
 
             TARGET_SELECTION_PAGES
@@ -276,48 +757,264 @@ export class TargetQuickPick {
                     label: NAMESPACE_SELECTION_PAGE.label,
                 });
             }
+
+            if (this.canSwitchContext()) {
+                items.push({
+                    type: 'page',
+                    value: CONTEXT_SELECTION_PAGE,
+                    label: CONTEXT_SELECTION_PAGE.label,
+                });
+            }
         }
 
         return [placeholder, items];
     }
 
+    /**
+     * Prepares a placeholder and items for the container selection step.
+     *
+     * The container selected most recently for this target is put first.
+     */
+    private prepareContainerItems(targetPath: string): [string, TargetQuickPickItem[]] {
+        const containers = this.lsOutput.targets.find(t => t.path === targetPath)?.containers ?? [];
+
+        const lastContainers: Record<string, string> = globalContext.workspaceState.get(LAST_CONTAINER_KEY)
+            || globalContext.globalState.get(LAST_CONTAINER_KEY)
+            || {};
+        const lastContainer = lastContainers[targetPath];
+
+        const items: TargetQuickPickItem[] = containers.map(c => {
+            return {
+                type: 'container',
+                value: c,
+                label: c,
+            };
+        });
+        if (lastContainer !== undefined && containers.includes(lastContainer)) {
+            items.unshift({
+                type: 'container',
+                value: lastContainer,
+                label: lastContainer,
+                description: 'most recent container',
+            });
+        }
+
+        return [`Select a container from ${targetPath}`, items];
+    }
+
+    /**
+     * Updates the placeholder, items and buttons of the displayed widget.
+     */
+    private render() {
+        if (this.quickPick === undefined) {
+            return;
+        }
+
+        const [placeholder, items] = this.containerTarget !== undefined
+            ? this.prepareContainerItems(this.containerTarget)
+            : this.prepareQuickPick();
+
+        this.quickPick.placeholder = placeholder;
+        this.quickPick.items = items;
+        this.quickPick.buttons = this.containerTarget !== undefined
+            ? [vscode.QuickInputButtons.Back, REFRESH_BUTTON]
+            : [REFRESH_BUTTON];
+    }
+
+    /**
+     * Persists the final selection, so that it can be offered first next time.
+     */
+    private finish(path: string, container?: string): UserSelection {
+        globalContext.workspaceState.update(LAST_CONTEXT_KEY, this.context);
+
+        globalContext.globalState.update(LAST_TARGET_KEY, path);
+        globalContext.workspaceState.update(LAST_TARGET_KEY, path);
+
+        if (this.launchConfig !== undefined) {
+            const byLaunchConfig: Record<string, string> = globalContext.workspaceState.get(LAST_TARGET_BY_LAUNCH_CONFIG_KEY) ?? {};
+            byLaunchConfig[launchConfigKey(this.launchConfig)] = path;
+            globalContext.workspaceState.update(LAST_TARGET_BY_LAUNCH_CONFIG_KEY, byLaunchConfig);
+        }
+
+        if (container !== undefined) {
+            for (const state of [globalContext.globalState, globalContext.workspaceState]) {
+                const stored: Record<string, string> = state.get(LAST_CONTAINER_KEY) ?? {};
+                stored[path] = container;
+                state.update(LAST_CONTAINER_KEY, stored);
+            }
+        }
+
+        return { path, namespace: this.lsOutput.current_namespace, container, context: this.context };
+    }
+
+    /**
+     * Saves the final selection in the mirrord config, if the target was selected with the "Save to config" button.
+     */
+    private async saveIfRequested(selection: UserSelection) {
+        if (this.saveRequested && this.saveTarget !== undefined) {
+            await this.saveTarget(selection);
+        }
+    }
+
+    /**
+     * Handles an item accepted by the user.
+     * 
+     * @returns the final selection, or undefined if the quick pick should stay open
+     */
+    private async accept(item: TargetQuickPickItem): Promise<UserSelection | undefined> {
+        switch (item.type) {
+            case 'target': {
+                const containers = this.lsOutput.targets.find(t => t.path === item.value)?.containers ?? [];
+                if (containers.length > 1) {
+                    this.containerTarget = item.value;
+                    this.quickPick!.value = '';
+                    this.render();
+                    return undefined;
+                }
+
+                return this.finish(item.value);
+            }
+
+            case 'container':
+                return this.finish(this.containerTarget!, item.value);
+
+            case 'unavailable':
+                new NotificationBuilder()
+                    .withMessage(`mirrord cannot use ${item.value.path}: ${unavailableReason(item.value)}`)
+                    .warning();
+                return undefined;
+
+            case 'namespace':
+                await this.switchTo(item.value, this.context);
+                return undefined;
+
+            case 'context':
+                await this.switchTo(undefined, item.value);
+                return undefined;
+
+            case 'page':
+                this.activePage = item.value;
+                this.quickPick!.value = '';
+                this.render();
+                return undefined;
+        }
+    }
+
     /**
      * Shows the quick pick and returns user selection.
      * 
-     * If the user selected nothing, returns targetless.
-     */
-    async showAndGet(): Promise<UserSelection> {
-        while (true) {
-            const [placeHolder, items] = this.prepareQuickPick();
-            const newSelection = await vscode.window.showQuickPick(items, { placeHolder });
-
-            switch (newSelection?.type) {
-                case 'target':
-                    if (newSelection.value !== undefined) {
-                        globalContext.globalState.update(LAST_TARGET_KEY, newSelection.value);
-                        globalContext.workspaceState.update(LAST_TARGET_KEY, newSelection.value);
+     * The title bar contains a button that refreshes the targets in place.
+     * Target items can have a button that saves the target in the mirrord config and selects it.
+     * 
+     * If the selected target has multiple containers, the user also selects the container.
+     * The back button in the container selection step goes back to the target selection.
+     *
+     * If the user selected nothing, behaves according to @see TargetQuickPickOptions.dismissAction
+     * or the `mirrord.targetPickerDismissAction` setting:
+     * returns targetless, returns undefined (the launch should be aborted), or asks the user.
+     */
+    async showAndGet(): Promise<UserSelection | undefined> {
+        const quickPick = vscode.window.createQuickPick<TargetQuickPickItem>();
+        // Allows filtering on the target status and labels, e.g. `app=checkout`.
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.title = this.title;
+        this.quickPick = quickPick;
+
+        try {
+            const selection = await new Promise<UserSelection | undefined>((resolve, reject) => {
+                quickPick.onDidAccept(async () => {
+                    const selected = quickPick.selectedItems[0];
+                    if (selected === undefined) {
+                        return;
                     }
 
-                    return { path: newSelection.value, namespace: this.lsOutput.current_namespace };
+                    try {
+                        const result = await this.accept(selected);
+                        if (result !== undefined) {
+                            await this.saveIfRequested(result);
+                            resolve(result);
+                        }
+                    } catch (e) {
+                        reject(e);
+                    }
+                });
+
+                quickPick.onDidTriggerButton(button => {
+                    if (button === vscode.QuickInputButtons.Back) {
+                        this.containerTarget = undefined;
+                        this.saveRequested = false;
+                        this.render();
+                    } else if (button === REFRESH_BUTTON) {
+                        this.refreshInBackground();
+                    }
+                });
+
+                quickPick.onDidTriggerItemButton(async event => {
+                    if (event.button !== SAVE_TO_CONFIG_BUTTON || event.item.type !== 'target' || this.saveTarget === undefined) {
+                        return;
+                    }
+
+                    try {
+                        this.saveRequested = true;
+                        const result = await this.accept(event.item);
+                        if (result !== undefined) {
+                            await this.saveIfRequested(result);
+                            resolve(result);
+                        }
+                    } catch (e) {
+                        reject(e);
+                    }
+                });
 
-                case 'namespace':
-                    this.lsOutput = await this.getTargets(newSelection.value);
-                    this.activePage = undefined;
-                    break;
+                quickPick.onDidHide(() => resolve(undefined));
 
-                case 'page':
-                    this.activePage = newSelection.value;
-                    break;
+                this.render();
+                quickPick.show();
 
-                case undefined:
-                    new NotificationBuilder()
-                        .withMessage("mirrord running targetless")
-                        .withDisableAction("promptTargetless")
-                        .info();
+                if (this.stale) {
+                    this.stale = false;
+                    this.refreshInBackground();
+                }
+            });
 
-                    return { path: 'targetless', namespace: this.lsOutput.current_namespace };
+            if (selection !== undefined) {
+                return selection;
             }
+        } finally {
+            this.quickPick = undefined;
+            quickPick.dispose();
         }
+
+        const dismissAction = this.dismissAction
+            ?? vscode.workspace.getConfiguration('mirrord').get<DismissAction>('targetPickerDismissAction', 'targetless');
+        if (dismissAction === 'abort') {
+            Logger.info('target selection dismissed, aborting the launch');
+            return undefined;
+        } else if (dismissAction === 'ask') {
+            const runTargetless = 'Run Targetless';
+            const selectTarget = 'Select Target';
+            const answer = await vscode.window.showWarningMessage(
+                'No mirrord target was selected.',
+                { modal: true, detail: 'Run the application targetless, go back to the target selection, or cancel the launch.' },
+                runTargetless,
+                selectTarget,
+            );
+
+            if (answer === selectTarget) {
+                return this.showAndGet();
+            } else if (answer !== runTargetless) {
+                Logger.info('target selection dismissed, aborting the launch');
+                return undefined;
+            }
+        }
+
+        new NotificationBuilder()
+            .withMessage("mirrord running targetless")
+            .withDisableAction("promptTargetless")
+            .info();
+
+        return { path: 'targetless', namespace: this.lsOutput.current_namespace, context: this.context };
     }
 
     /**
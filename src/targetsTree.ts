@@ -0,0 +1,255 @@
+import * as vscode from 'vscode';
+import { FoundTarget, MirrordLsOutput } from './api';
+import { getMirrordAPI } from './binaryManager';
+import { MirrordConfigManager } from './config';
+import { globalContext } from './extension';
+import { MirrordLaunchOptions, selectLaunchConfig } from './launchConfigs';
+import { NotificationBuilder } from './notification';
+import { TargetQuickPick } from './targetQuickPick';
+import Logger from './logger';
+
+/**
+ * A node in the @see MirrordTargetsView tree.
+ */
+type TargetTreeNode =
+    { kind: 'namespace', namespace: string, current: boolean } | // namespace, contains target types
+    { kind: 'targetType', namespace?: string, targetType: string, targets: FoundTarget[] } | // contains targets
+    { kind: 'target', namespace?: string, target: FoundTarget } |
+    { kind: 'error', message: string }; // `mirrord ls` failed
+
+/**
+ * Context value of the tree items representing available targets, used in the `view/item/context` menu.
+ */
+const TARGET_CONTEXT_VALUE = 'mirrordTarget';
+
+/**
+ * The "Targets" view in the mirrord view container.
+ *
+ * Lists namespaces -> target types -> targets, using `mirrord ls` with the active mirrord config.
+ * If the CLI does not support listing namespaces, target types are at the top level.
+ */
+export class MirrordTargetsView implements vscode.TreeDataProvider<TargetTreeNode> {
+    static readonly viewId = 'mirrord.targets';
+    static readonly refreshCommandId = 'mirrord.targets.refresh';
+    static readonly debugCommandId = 'mirrord.targets.debug';
+    static readonly copyPathCommandId = 'mirrord.targets.copyPath';
+    static readonly setDefaultCommandId = 'mirrord.targets.setDefault';
+
+    private readonly changeEmitter = new vscode.EventEmitter<TargetTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    /**
+     * Outputs of `mirrord ls`, keyed by the namespace (empty string for the default namespace).
+     *
+     * Cleared on refresh and when the active config changes.
+     */
+    private readonly lsOutputs = new Map<string, MirrordLsOutput>();
+
+    register(): MirrordTargetsView {
+        globalContext.subscriptions.push(vscode.window.registerTreeDataProvider(MirrordTargetsView.viewId, this));
+        globalContext.subscriptions.push(this.changeEmitter);
+
+        MirrordConfigManager.getInstance().onActiveConfigChange(async () => this.refresh());
+
+        globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordTargetsView.refreshCommandId, this.refresh.bind(this)));
+        globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordTargetsView.debugCommandId, this.debug.bind(this)));
+        globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordTargetsView.copyPathCommandId, this.copyPath.bind(this)));
+        globalContext.subscriptions.push(vscode.commands.registerCommand(MirrordTargetsView.setDefaultCommandId, this.setDefault.bind(this)));
+
+        return this;
+    }
+
+    refresh() {
+        this.lsOutputs.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Invokes `mirrord ls` in the given namespace, or returns the cached output.
+     *
+     * Errors are not notified, they are shown in the tree instead (see @see getChildren).
+     */
+    private async listTargets(namespace?: string): Promise<MirrordLsOutput> {
+        const cached = this.lsOutputs.get(namespace ?? '');
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const mirrordApi = await getMirrordAPI();
+        const activeConfig = MirrordConfigManager.getInstance().activeConfig();
+        const output = await mirrordApi.listTargets(
+            activeConfig?.fsPath,
+            {},
+            TargetQuickPick.getSupportedTargetTypes(),
+            namespace,
+            undefined,
+            false,
+        );
+
+        this.lsOutputs.set(namespace ?? '', output);
+        if (namespace === undefined && output.current_namespace !== undefined) {
+            this.lsOutputs.set(output.current_namespace, output);
+        }
+
+        return output;
+    }
+
+    /**
+     * Groups the targets by their type, in the order of @see TargetQuickPick.getSupportedTargetTypes.
+     */
+    private static targetTypeNodes(output: MirrordLsOutput, namespace?: string): TargetTreeNode[] {
+        const nodes: TargetTreeNode[] = [];
+        for (const targetType of TargetQuickPick.getSupportedTargetTypes()) {
+            const targets = output.targets.filter(t => t.path.startsWith(`${targetType}/`));
+            if (targets.length > 0) {
+                nodes.push({ kind: 'targetType', namespace, targetType, targets });
+            }
+        }
+        return nodes;
+    }
+
+    async getChildren(node?: TargetTreeNode): Promise<TargetTreeNode[]> {
+        try {
+            if (node === undefined) {
+                const output = await this.listTargets();
+                if (output.namespaces === undefined) {
+                    return MirrordTargetsView.targetTypeNodes(output, output.current_namespace);
+                }
+
+                return output.namespaces.map(namespace => {
+                    return { kind: 'namespace', namespace, current: namespace === output.current_namespace };
+                });
+            }
+
+            switch (node.kind) {
+                case 'namespace':
+                    return MirrordTargetsView.targetTypeNodes(await this.listTargets(node.namespace), node.namespace);
+                case 'targetType':
+                    return node.targets.map(target => {
+                        return { kind: 'target', namespace: node.namespace, target };
+                    });
+                default:
+                    return [];
+            }
+        } catch (e) {
+            const errorMsg = e instanceof Error ? e.message : String(e);
+            Logger.error(`failed to list mirrord targets: ${errorMsg}`);
+            return [{ kind: 'error', message: `Failed to list targets: ${errorMsg}` }];
+        }
+    }
+
+    getTreeItem(node: TargetTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'namespace': {
+                const item = new vscode.TreeItem(
+                    node.namespace,
+                    node.current ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+                );
+                item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                item.description = node.current ? 'current' : undefined;
+                return item;
+            }
+            case 'targetType': {
+                const item = new vscode.TreeItem(`${node.targetType}s`, vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = new vscode.ThemeIcon('symbol-folder');
+                item.description = `${node.targets.length}`;
+                return item;
+            }
+            case 'target': {
+                const item = new vscode.TreeItem(node.target.path.split('/').slice(1).join('/'), vscode.TreeItemCollapsibleState.None);
+                if (node.target.available) {
+                    item.iconPath = new vscode.ThemeIcon('server-process');
+                    item.contextValue = TARGET_CONTEXT_VALUE;
+                    item.tooltip = node.target.path;
+                } else {
+                    item.iconPath = new vscode.ThemeIcon('circle-slash');
+                    item.description = 'unavailable';
+                    item.tooltip = node.target.unavailable_reason ?? `${node.target.path} is not available`;
+                }
+                return item;
+            }
+            case 'error': {
+                const item = new vscode.TreeItem(node.message, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon('error');
+                return item;
+            }
+        }
+    }
+
+    /**
+     * Handles the `mirrord.targets.debug` command.
+     * Starts the selected launch configuration with mirrord enabled, against the given target.
+     *
+     * The target is passed in the `mirrord` property of the launch configuration,
+     * so the target quick pick is not shown.
+     */
+    private async debug(node?: TargetTreeNode) {
+        if (node?.kind !== 'target') {
+            return;
+        }
+
+        const launch = await selectLaunchConfig("Select launch configuration to debug");
+        if (launch === undefined) {
+            return;
+        }
+
+        const mirrord: MirrordLaunchOptions = {
+            ...launch.config.mirrord,
+            enabled: true,
+            target: node.target.path,
+            namespace: node.namespace ?? launch.config.mirrord?.namespace,
+        };
+
+        await vscode.debug.startDebugging(launch.folder, { ...launch.config, mirrord });
+    }
+
+    /**
+     * Handles the `mirrord.targets.copyPath` command.
+     */
+    private async copyPath(node?: TargetTreeNode) {
+        if (node?.kind !== 'target') {
+            return;
+        }
+
+        await vscode.env.clipboard.writeText(node.target.path);
+    }
+
+    /**
+     * Handles the `mirrord.targets.setDefault` command.
+     * Saves the target in the active mirrord config, or in the default config of the workspace folder.
+     */
+    private async setDefault(node?: TargetTreeNode) {
+        if (node?.kind !== 'target') {
+            return;
+        }
+
+        const activeConfig = MirrordConfigManager.getInstance().activeConfig() ?? null;
+        let folder: vscode.WorkspaceFolder | undefined;
+        if (activeConfig === null) {
+            const folders = vscode.workspace.workspaceFolders ?? [];
+            folder = folders.length > 1 ? await vscode.window.showWorkspaceFolderPick() : folders[0];
+            if (folder === undefined) {
+                return;
+            }
+        }
+
+        let savedTo;
+        try {
+            savedTo = await MirrordConfigManager.saveTarget(activeConfig, folder, { path: node.target.path, namespace: node.namespace });
+        } catch (e) {
+            const errorMsg = e instanceof Error ? e.message : String(e);
+            Logger.error(`failed to save target ${node.target.path}: ${errorMsg}`);
+            new NotificationBuilder()
+                .withMessage(`failed to save target: ${errorMsg}`)
+                .error();
+            return;
+        }
+
+        if (savedTo) {
+            new NotificationBuilder()
+                .withMessage(`Saved target ${node.target.path} to ${vscode.workspace.asRelativePath(savedTo)}`)
+                .withOpenFileAction(savedTo)
+                .info();
+        }
+    }
+}
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ConfigFormat, expandShorthands, parseConfig, setConfigValues, withShorthandValues } from "../../configFile";
+
+/**
+ * Sets the values, checks that the result is still a valid config, and returns it.
+ */
+function set(text: string, format: ConfigFormat, values: Parameters<typeof setConfigValues>[2]): string {
+  const updated = setConfigValues(text, format, values);
+  expect(() => parseConfig(updated, format)).not.to.throw();
+  return updated;
+}
+
+describe("setConfigValues", function () {
+  describe("JSON", function () {
+    it("sets the values keeping the comments", function () {
+      const text = '{\n    // my target\n    "target": {\n        "path": "pod/a"\n    }\n}\n';
+      const updated = set(text, "json", [[["target", "path"], "pod/b"], [["target", "namespace"], "ns"]]);
+
+      expect(updated).to.include("// my target");
+      expect(parseConfig(updated, "json")).to.deep.equal({ target: { path: "pod/b", namespace: "ns" } });
+    });
+
+    it("replaces a parent that is not an object", function () {
+      const updated = set('{ "target": "pod/a" }', "json", [[["target", "namespace"], "ns"]]);
+      expect(parseConfig(updated, "json")).to.deep.equal({ target: { namespace: "ns" } });
+    });
+
+    it("creates the config from empty text", function () {
+      const updated = set("", "json", [[["target", "path"], "pod/a"]]);
+      expect(parseConfig(updated, "json")).to.deep.equal({ target: { path: "pod/a" } });
+    });
+
+    it("removes values", function () {
+      const updated = set('{ "target": { "path": "pod/a", "namespace": "ns" } }', "json", [[["target", "namespace"], undefined]]);
+      expect(parseConfig(updated, "json")).to.deep.equal({ target: { path: "pod/a" } });
+    });
+  });
+
+  describe("YAML", function () {
+    it("sets the values keeping the comments", function () {
+      const text = "# my target\ntarget:\n  path: pod/a\n";
+      const updated = set(text, "yaml", [[["target", "path"], "pod/b"], [["target", "namespace"], "ns"]]);
+
+      expect(updated).to.include("# my target");
+      expect(parseConfig(updated, "yaml")).to.deep.equal({ target: { path: "pod/b", namespace: "ns" } });
+    });
+
+    it("replaces a parent that is not a map", function () {
+      const updated = set("target: pod/a\n", "yaml", [[["target", "namespace"], "ns"]]);
+      expect(parseConfig(updated, "yaml")).to.deep.equal({ target: { namespace: "ns" } });
+    });
+
+    it("sets lists and removes values", function () {
+      const text = "feature:\n  env:\n    include:\n      - A\n      - B\n    exclude: C\n";
+      const updated = set(text, "yaml", [[["feature", "env", "include"], ["D"]], [["feature", "env", "exclude"], undefined]]);
+      expect(parseConfig(updated, "yaml")).to.deep.equal({ feature: { env: { include: ["D"] } } });
+    });
+  });
+
+  describe("TOML", function () {
+    it("sets the values keeping the comments", function () {
+      const text = "# my target\n[target]\npath = \"pod/a\" # the pod\n";
+      const updated = set(text, "toml", [[["target", "path"], "pod/b"], [["target", "namespace"], "ns"]]);
+
+      expect(updated).to.include("# my target");
+      expect(parseConfig(updated, "toml")).to.deep.equal({ target: { path: "pod/b", namespace: "ns" } });
+    });
+
+    it("sets quoted keys", function () {
+      const updated = set('[target]\n"path" = "pod/a"\n', "toml", [[["target", "path"], "pod/b"]]);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ target: { path: "pod/b" } });
+    });
+
+    it("quotes keys that are not bare keys", function () {
+      const updated = set("", "toml", [[["feature", "env", "override"], ["A"]], [["my key", "a.b"], 1]]);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ feature: { env: { override: ["A"] } }, "my key": { "a.b": 1 } });
+    });
+
+    it("replaces and removes multi-line arrays", function () {
+      const text = "[feature.env]\ninclude = [\n  \"A\", # a\n  \"B\",\n]\nexclude = [\n  \"C\",\n]\nunset = \"D\"\n";
+      const updated = set(text, "toml", [[["feature", "env", "include"], ["E"]], [["feature", "env", "exclude"], undefined]]);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ feature: { env: { include: ["E"], unset: "D" } } });
+    });
+
+    it("sets keys defined with dotted keys in another table", function () {
+      const text = "[feature]\nnetwork.incoming = \"steal\"\nfs = \"read\"\n";
+      const updated = set(text, "toml", [[["feature", "network", "dns"], false]]);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ feature: { network: { incoming: "steal", dns: false }, fs: "read" } });
+    });
+
+    it("keeps the other keys of inline tables", function () {
+      const text = "target = { path = \"pod/a\", namespace = \"ns\" } # the target\n";
+      const updated = set(text, "toml", [[["target", "path"], "deployment/b"]]);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ target: { path: "deployment/b", namespace: "ns" } });
+    });
+
+    it("replaces a parent that is not a table", function () {
+      const text = "[feature.network]\nincoming = \"mirror\"\n";
+      const updated = set(text, "toml", [[["feature", "network", "incoming", "http_filter", "header_filter"], "x: y"]]);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ feature: { network: { incoming: { http_filter: { header_filter: "x: y" } } } } });
+    });
+
+    it("creates the config from empty text", function () {
+      const updated = set("", "toml", [[["target", "path"], "pod/a"], [["kube_context"], "ctx"]]);
+      expect(updated.endsWith("\n")).to.equal(true);
+      expect(parseConfig(updated, "toml")).to.deep.equal({ target: { path: "pod/a" }, kube_context: "ctx" });
+    });
+
+    it("keeps the line endings", function () {
+      const updated = set("[target]\r\npath = \"pod/a\"\r\n", "toml", [[["target", "namespace"], "ns"]]);
+      expect(updated.replace(/\r\n/g, "")).not.to.include("\n");
+    });
+  });
+});
+
+describe("shorthands", function () {
+  /**
+   * Sets the values the way the config editor does, keeping the shorthand sections.
+   */
+  function setKeeping(text: string, format: ConfigFormat, values: Parameters<typeof setConfigValues>[2]): unknown {
+    return parseConfig(set(text, format, withShorthandValues(parseConfig(text, format), values)), format);
+  }
+
+  it("expands the shorthand sections", function () {
+    const config = { target: "pod/a", feature: { network: { incoming: "steal" }, fs: "read" } };
+    expect(expandShorthands(config)).to.deep.equal({
+      target: { path: "pod/a" },
+      feature: { network: { incoming: { mode: "steal" } }, fs: { mode: "read" } },
+    });
+    expect(config.target).to.equal("pod/a");
+  });
+
+  it("keeps the incoming mode when setting an HTTP filter", function () {
+    const text = "[feature.network]\nincoming = \"mirror\" # mode\ndns = false\n";
+    expect(setKeeping(text, "toml", [[["feature", "network", "incoming", "http_filter", "header_filter"], "x: y"]])).to.deep.equal({
+      feature: { network: { incoming: { mode: "mirror", http_filter: { header_filter: "x: y" } }, dns: false } },
+    });
+  });
+
+  it("keeps the fs mode when setting a list of paths", function () {
+    const text = "[feature]\nfs = \"read\"\n\n[feature.env]\ninclude = [\n  \"A\",\n  \"B\",\n]\n";
+    expect(setKeeping(text, "toml", [[["feature", "fs", "local"], ["/tmp", "/var"]]])).to.deep.equal({
+      feature: { fs: { mode: "read", local: ["/tmp", "/var"] }, env: { include: ["A", "B"] } },
+    });
+  });
+
+  it("keeps the target path in every format", function () {
+    const texts: Record<ConfigFormat, string> = {
+      json: '{ "target": "pod/a" }',
+      toml: "target = \"pod/a\"\n",
+      yaml: "target: pod/a\n",
+    };
+    for (const [format, text] of Object.entries(texts) as [ConfigFormat, string][]) {
+      expect(setKeeping(text, format, [[["target", "namespace"], "ns"]])).to.deep.equal({ target: { path: "pod/a", namespace: "ns" } });
+    }
+  });
+
+  it("leaves the shorthand when removing a field inside", function () {
+    expect(setKeeping("[feature]\nfs = \"read\"\n", "toml", [[["feature", "fs", "local"], undefined]])).to.deep.equal({ feature: { fs: "read" } });
+  });
+
+  it("does not keep the shorthand when its field is set", function () {
+    expect(withShorthandValues({ target: "pod/a" }, [[["target", "path"], "pod/b"]])).to.deep.equal([[["target", "path"], "pod/b"]]);
+  });
+});
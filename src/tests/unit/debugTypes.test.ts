@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { settings } from "./vscodeStub";
+import { applyDebugTypeProfile, envToEnvironment, environmentToEnv, getDebugTypeProfile, hasDebugTypeProfile } from "../../debugTypes";
+
+describe("debug type profiles", function () {
+  afterEach(function () {
+    settings.clear();
+  });
+
+  it("maps the debug types to their executable field", function () {
+    const fields = Object.fromEntries(
+      ["go", "python", "debugpy", "java", "node", "pwa-node", "node-terminal", "cppdbg", "lldb", "coreclr", "rdbg", "php", "unknown"]
+        .map(type => [type, getDebugTypeProfile(type).executableField]),
+    );
+
+    expect(fields).to.deep.equal({
+      "go": "program",
+      "python": "python",
+      "debugpy": "python",
+      "java": "program",
+      "node": "runtimeExecutable",
+      "pwa-node": "runtimeExecutable",
+      "node-terminal": "command",
+      "cppdbg": "program",
+      "lldb": "program",
+      "coreclr": "program",
+      "rdbg": "rdbgPath",
+      "php": "runtimeExecutable",
+      "unknown": "program",
+    });
+  });
+
+  it("maps the debug types to their stop on entry property", function () {
+    expect(getDebugTypeProfile("cppdbg").stopOnEntryProperty).to.equal("stopAtEntry");
+    expect(getDebugTypeProfile("coreclr").stopOnEntryProperty).to.equal("stopAtEntry");
+    expect(getDebugTypeProfile("clr").stopOnEntryProperty).to.equal("stopAtEntry");
+    expect(getDebugTypeProfile("lldb").stopOnEntryProperty).to.equal("stopOnEntry");
+    expect(getDebugTypeProfile("go").stopOnEntryProperty).to.equal("stopOnEntry");
+    expect(getDebugTypeProfile("unknown").stopOnEntryProperty).to.equal("stopOnEntry");
+  });
+
+  it("skips the debugger processes", function () {
+    expect(getDebugTypeProfile("go").skipProcesses).to.include.members(["dlv", "debugserver"]);
+    expect(getDebugTypeProfile("cppdbg").skipProcesses).to.include.members(["gdb", "lldb-mi"]);
+    expect(getDebugTypeProfile("lldb").skipProcesses).to.include.members(["codelldb", "lldb-server"]);
+    expect(getDebugTypeProfile("coreclr").skipProcesses).to.include.members(["vsdbg", "vsdbg-ui"]);
+    expect(getDebugTypeProfile("python").skipProcesses).to.deep.equal([]);
+  });
+
+  it("maps the debug types to their debugger ports", function () {
+    expect(getDebugTypeProfile("python").detectDebuggerPort).to.equal("debugpy");
+    expect(getDebugTypeProfile("java").detectDebuggerPort).to.equal("javaagent");
+    expect(getDebugTypeProfile("node").detectDebuggerPort).to.equal(undefined);
+    expect(getDebugTypeProfile("cppdbg").detectDebuggerPort).to.equal(undefined);
+
+    expect(getDebugTypeProfile("php").ignoreDebuggerPorts).to.equal("9003");
+    expect(getDebugTypeProfile("php").debuggerPortField).to.equal("port");
+    expect(getDebugTypeProfile("rdbg").debuggerPortField).to.equal("debugPort");
+    expect(getDebugTypeProfile("go").ignoreDebuggerPorts).to.equal("45000-65535");
+  });
+
+  it("overrides the built-in profiles with the setting", function () {
+    settings.set("mirrord.debugTypeProfiles", {
+      "cppdbg": { skipProcesses: ["my-gdb"] },
+      "my-debugger": { executableField: "binary", detectDebuggerPort: "debugpy" },
+    });
+
+    const cppdbg = getDebugTypeProfile("cppdbg");
+    expect(cppdbg.skipProcesses).to.deep.equal(["my-gdb"]);
+    expect(cppdbg.stopOnEntryProperty).to.equal("stopAtEntry");
+
+    const custom = getDebugTypeProfile("my-debugger");
+    expect(custom.executableField).to.equal("binary");
+    expect(custom.detectDebuggerPort).to.equal("debugpy");
+    expect(custom.ignoreDebuggerPorts).to.equal("45000-65535");
+
+    expect(hasDebugTypeProfile("my-debugger")).to.equal(true);
+    expect(hasDebugTypeProfile("other-debugger")).to.equal(false);
+  });
+});
+
+describe("applyDebugTypeProfile", function () {
+  it("sets the env of the debug type", function () {
+    const config = { type: "python", name: "test", request: "launch", env: {} };
+    applyDebugTypeProfile(config, getDebugTypeProfile("python"));
+
+    expect(config.env).to.deep.equal({
+      "MIRRORD_DETECT_DEBUGGER_PORT": "debugpy",
+      "MIRRORD_IGNORE_DEBUGGER_PORTS": "45000-65535",
+    });
+  });
+
+  it("adds the debugger processes to the ones from the launch configuration", function () {
+    const config = { type: "cppdbg", name: "test", request: "launch", env: { "MIRRORD_SKIP_PROCESSES": "make;gdb" } };
+    applyDebugTypeProfile(config, getDebugTypeProfile("cppdbg"));
+
+    expect(config.env["MIRRORD_SKIP_PROCESSES"].split(";")).to.deep.equal(["make", "gdb", "lldb-mi", "lldb", "lldb-server", "debugserver"]);
+  });
+
+  it("keeps the env of the launch configuration", function () {
+    const profile = { ...getDebugTypeProfile("go"), env: { "MIRRORD_ENV_LOAD_FROM_PROCESS": "true", "MIRRORD_AGENT_TTL": "30" } };
+    const config = { type: "go", name: "test", request: "launch", env: { "MIRRORD_ENV_LOAD_FROM_PROCESS": "false" } };
+    applyDebugTypeProfile(config, profile);
+
+    expect(config.env).to.include({ "MIRRORD_ENV_LOAD_FROM_PROCESS": "false", "MIRRORD_AGENT_TTL": "30" });
+  });
+
+  it("ignores the debugger port from the launch configuration", function () {
+    const withPort = { type: "php", name: "test", request: "launch", port: 9000, env: {} as Record<string, string> };
+    applyDebugTypeProfile(withPort, getDebugTypeProfile("php"));
+    expect(withPort.env["MIRRORD_IGNORE_DEBUGGER_PORTS"]).to.equal("9000");
+
+    const withoutPort = { type: "php", name: "test", request: "launch", env: {} as Record<string, string> };
+    applyDebugTypeProfile(withoutPort, getDebugTypeProfile("php"));
+    expect(withoutPort.env["MIRRORD_IGNORE_DEBUGGER_PORTS"]).to.equal("9003");
+
+    const withSocket = { type: "rdbg", name: "test", request: "launch", debugPort: "/tmp/rdbg.sock", env: {} as Record<string, string> };
+    applyDebugTypeProfile(withSocket, getDebugTypeProfile("rdbg"));
+    expect(withSocket.env["MIRRORD_IGNORE_DEBUGGER_PORTS"]).to.equal("45000-65535");
+  });
+});
+
+describe("cppdbg environment", function () {
+  it("moves the environment to env and back", function () {
+    const config = {
+      type: "cppdbg",
+      name: "test",
+      request: "launch",
+      environment: [{ name: "A", value: "1" }, { name: "B", value: "2" }],
+    };
+
+    environmentToEnv(config);
+    expect(config).to.deep.equal({ type: "cppdbg", name: "test", request: "launch", env: { "A": "1", "B": "2" } });
+
+    envToEnvironment(config);
+    expect(config).to.deep.equal({
+      type: "cppdbg",
+      name: "test",
+      request: "launch",
+      environment: [{ name: "A", value: "1" }, { name: "B", value: "2" }],
+    });
+  });
+
+  it("prefers env over the environment", function () {
+    const config = { type: "cppdbg", name: "test", request: "launch", environment: [{ name: "A", value: "1" }], env: { "A": "2" } };
+    environmentToEnv(config);
+    expect(config.env).to.deep.equal({ "A": "2" });
+  });
+
+  it("leaves other debug types unchanged", function () {
+    const config = { type: "lldb", name: "test", request: "launch", env: { "A": "1" } };
+    environmentToEnv(config);
+    envToEnvironment(config);
+    expect(config).to.deep.equal({ type: "lldb", name: "test", request: "launch", env: { "A": "1" } });
+  });
+});
@@ -0,0 +1,59 @@
+import { expect } from "chai";
+import { settings } from "./vscodeStub";
+import { LaunchBatch } from "../../launchBatch";
+
+describe("LaunchBatch", function () {
+  // The batches close once all launches of the compound arrived, well before the fallback window.
+  this.timeout(500);
+
+  const launch = (name: string) => ({ type: "node", name, request: "launch" });
+
+  beforeEach(function () {
+    settings.set("launch.compounds", [
+      { name: "frontend", configurations: ["web", "api"] },
+      { name: "backend", configurations: ["api", { name: "worker", folder: "worker" }] },
+    ]);
+  });
+
+  afterEach(function () {
+    settings.clear();
+  });
+
+  it("groups the launches of the compound", async function () {
+    const web = launch("web");
+    const api = launch("api");
+    const [webMember, apiMember] = await Promise.all([LaunchBatch.join(undefined, web), LaunchBatch.join(undefined, api)]);
+
+    expect(webMember).not.to.equal(undefined);
+    expect(apiMember?.batch).to.equal(webMember?.batch);
+    LaunchBatch.leave(web);
+    LaunchBatch.leave(api);
+  });
+
+  it("does not wait for the launches not prepared by mirrord", async function () {
+    const worker = launch("worker");
+    const joining = LaunchBatch.join(undefined, worker);
+    LaunchBatch.pass(undefined, launch("api"));
+
+    expect(await joining).to.equal(undefined);
+    LaunchBatch.leave(worker);
+  });
+
+  it("prepares the launches outside of compounds on their own", async function () {
+    const other = launch("other");
+    expect(await LaunchBatch.join(undefined, other)).to.equal(undefined);
+    LaunchBatch.leave(other);
+  });
+
+  it("fails the batch together", async function () {
+    const web = launch("web");
+    const api = launch("api");
+    const [webMember, apiMember] = await Promise.all([LaunchBatch.join(undefined, web), LaunchBatch.join(undefined, api)]);
+
+    const prepared = webMember!.prepare(async () => "web");
+    LaunchBatch.leave(api);
+    expect(await prepared).to.equal(undefined);
+    expect(await apiMember!.result).to.equal(false);
+    LaunchBatch.leave(web);
+  });
+});
@@ -0,0 +1,28 @@
+import Module from "module";
+
+/**
+ * Settings returned by `vscode.workspace.getConfiguration(section).get(key)`, keyed by `section.key`.
+ */
+export const settings = new Map<string, unknown>();
+
+/**
+ * The parts of the `vscode` API used by the modules under unit test.
+ */
+const vscode = {
+  workspace: {
+    getConfiguration: (section?: string) => {
+      return {
+        get: <T>(key: string, defaultValue?: T): T | undefined => {
+          const fullKey = section ? `${section}.${key}` : key;
+          return settings.has(fullKey) ? settings.get(fullKey) as T : defaultValue;
+        },
+      };
+    },
+  },
+};
+
+// The `vscode` module is provided by the editor, so outside of it the module loader returns the stub instead.
+// Loaded with `mocha --require`, before the modules under test.
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = (request, ...rest) => request === "vscode" ? vscode : load(request, ...rest);
@@ -21,7 +21,9 @@ const config = {
         vscode: "commonjs vscode"
     },
     resolve: { 
-        extensions: ['.ts', '.js']
+        extensions: ['.ts', '.js'],
+        // `jsonc-parser` main entry is a UMD module that does not bundle correctly.
+        mainFields: ['module', 'main']
     },
     module: {
         rules: [{